@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// 命令行入口：通过 tsx 直接运行 TypeScript 源码，与网页端共用解析与对比逻辑
+import { register } from "tsx/esm/api";
+
+register();
+await import("../src/cli/textora.ts");
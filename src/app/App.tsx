@@ -1,10 +1,38 @@
 'use client';
 
-import { useRef, useState, type DragEvent } from 'react';
+import { useCallback, useEffect, useRef, useState, type DragEvent } from 'react';
 import Image from 'next/image';
 import { FileUploader } from './components/file-uploader';
-import { DocumentComparator } from './components/document-comparator';
+import { DocumentComparator, type SavedComparison } from './components/document-comparator';
+import { SessionHistory } from './components/session-history';
+import { VersionPairPicker, type VersionPair } from './components/version-pair-picker';
+import { VersionTimeline } from './components/version-timeline';
+import { ThreeWayComparator } from './components/three-way-comparator';
+import { SpreadsheetComparator } from './components/spreadsheet-comparator';
+import { Button } from './components/ui/button';
+import { Plus } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from './components/ui/sidebar';
+import type { ReviewDecision } from './lib/merge';
+import {
+  createSession,
+  deleteSession,
+  deleteSessionSnapshot,
+  getSession,
+  getSessionSnapshot,
+  listSessions,
+  saveSessionSnapshot,
+  updateSession,
+  type ComparisonSession,
+  type SessionSnapshot,
+} from './lib/session-store';
+
+// 记录正在查看的会话，刷新页面后自动重新打开
+const ACTIVE_SESSION_KEY = 'textora:active-session';
+// 审阅结果连续变化时合并为一次写入
+const REVIEW_SAVE_DELAY = 500;
+
+const THREE_WAY_LABELS = ['基础版本（共同祖先）', '我的版本', '他们的版本'];
 
 function DesignReview() {
   const [designUrl, setDesignUrl] = useState('');
@@ -167,126 +195,443 @@ function DesignReview() {
   );
 }
 
+function SpreadsheetReview() {
+  const [files, setFiles] = useState<(File | null)[]>([null, null]);
+  // 已开始对比的两个表格；为 null 时显示上传区
+  const [compared, setCompared] = useState<[File, File] | null>(null);
+
+  if (compared) {
+    return (
+      <div className="space-y-4">
+        <button
+          type="button"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+          onClick={() => setCompared(null)}
+        >
+          <span className="mr-1 text-lg leading-none">←</span>
+          返回
+        </button>
+        <SpreadsheetComparator fileA={compared[0]} fileB={compared[1]} />
+      </div>
+    );
+  }
+
+  const [fileA, fileB] = files;
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-2 gap-6">
+        {files.map((file, idx) => (
+          <FileUploader
+            key={idx}
+            label={idx === 0 ? '表格 A（原始版本）' : '表格 B（对比版本）'}
+            file={file}
+            onFileSelect={(next) => setFiles((prev) => prev.map((f, i) => (i === idx ? next : f)))}
+            accept=".xlsx,.csv"
+            formats="XLSX, CSV"
+          />
+        ))}
+      </div>
+
+      {fileA && fileB && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => setCompared([fileA, fileB])}
+            className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-lg hover:shadow-xl"
+          >
+            对比表格
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function App() {
-  const [fileA, setFileA] = useState<File | null>(null);
-  const [fileB, setFileB] = useState<File | null>(null);
-  const [activeTab, setActiveTab] = useState<'doc' | 'design'>('doc');
+  // 上传区按顺序排列的版本，默认两个（文档 A / B），可继续添加
+  const [files, setFiles] = useState<(File | null)[]>([null, null]);
+  // 对比页使用的版本序列，以及当前对比的两个版本下标
+  const [versions, setVersions] = useState<File[]>([]);
+  const [pair, setPair] = useState<VersionPair>([0, 1]);
+  const [versionView, setVersionView] = useState<'diff' | 'timeline'>('diff');
+  // 三方合并：基础版本 / 我的 / 他们的，不保存到对比历史
+  const [compareMode, setCompareMode] = useState<'versions' | 'three-way'>('versions');
+  const [threeWayFiles, setThreeWayFiles] = useState<(File | null)[]>([null, null, null]);
+  // 已开始合并的三个文件；为 null 时对比页显示普通的版本对比
+  const [threeWay, setThreeWay] = useState<[File, File, File] | null>(null);
+  const [activeTab, setActiveTab] = useState<'doc' | 'sheet' | 'design'>('doc');
   const [docView, setDocView] = useState<'upload' | 'compare'>('upload');
+  const [sessions, setSessions] = useState<ComparisonSession[]>([]);
+  // 当前会话；IndexedDB 不可用时为 null，对比照常进行但不保存
+  const [activeSession, setActiveSession] = useState<{
+    id: string;
+    saved?: SavedComparison;
+  } | null>(null);
+  const activeId = activeSession?.id;
+  // 最近一次写入（或待写入）的审阅结果与最新的选中差异
+  const reviewSaveRef = useRef<{
+    decisions?: Record<number, ReviewDecision>;
+    selectedDiffId?: number;
+    timer?: ReturnType<typeof setTimeout>;
+  }>({});
 
-  const handleStartComparison = () => {
-    if (fileA && fileB) {
-      setDocView('compare');
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(() => setSessions([]));
+  }, []);
+
+  const openSession = useCallback(async (id: string) => {
+    const [session, snapshot] = await Promise.all([getSession(id), getSessionSnapshot(id)]);
+    if (!session) {
+      localStorage.removeItem(ACTIVE_SESSION_KEY);
+      return;
     }
+    const sessionVersions = session.versions ?? [session.fileA, session.fileB];
+    setFiles(sessionVersions);
+    setVersions(sessionVersions);
+    setPair(session.pair ?? [0, 1]);
+    setVersionView('diff');
+    setCompareMode('versions');
+    setThreeWay(null);
+    reviewSaveRef.current.decisions = session.decisions;
+    setActiveSession({
+      id,
+      saved: { snapshot, decisions: session.decisions, selectedDiffId: session.selectedDiffId },
+    });
+    setActiveTab('doc');
+    setDocView('compare');
+    localStorage.setItem(ACTIVE_SESSION_KEY, id);
+  }, []);
+
+  useEffect(() => {
+    refreshSessions();
+    const lastId = localStorage.getItem(ACTIVE_SESSION_KEY);
+    if (lastId) openSession(lastId).catch(() => localStorage.removeItem(ACTIVE_SESSION_KEY));
+  }, [refreshSessions, openSession]);
+
+  const readyFiles = files.filter((file): file is File => !!file);
+  const fileA = versions[pair[0]] ?? null;
+  const fileB = versions[pair[1]] ?? null;
+
+  const handleFileSelect = (index: number) => (file: File | null) => {
+    setFiles((prev) =>
+      // 追加的版本被清除时直接移除该位置
+      file === null && index >= 2
+        ? prev.filter((_, i) => i !== index)
+        : prev.map((f, i) => (i === index ? file : f)),
+    );
+  };
+
+  const handleStartComparison = async () => {
+    if (readyFiles.length < 2) return;
+    setVersions(readyFiles);
+    setPair([0, 1]);
+    setVersionView('diff');
+    try {
+      const session = await createSession(readyFiles);
+      setActiveSession({ id: session.id });
+      localStorage.setItem(ACTIVE_SESSION_KEY, session.id);
+      refreshSessions();
+    } catch {
+      setActiveSession(null);
+    }
+    setDocView('compare');
+  };
+
+  const handleStartThreeWay = () => {
+    const [base, mine, theirs] = threeWayFiles;
+    if (!base || !mine || !theirs) return;
+    setThreeWay([base, mine, theirs]);
+    setActiveSession(null);
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+    setDocView('compare');
+  };
+
+  // 切换对比的版本：清空审阅状态与旧结果，对比组件按新的版本对重新挂载
+  const handlePairChange = (next: VersionPair) => {
+    setPair(next);
+    setActiveSession((prev) => prev && { id: prev.id });
+    clearTimeout(reviewSaveRef.current.timer);
+    if (!activeId) return;
+    Promise.all([
+      updateSession(activeId, {
+        fileA: versions[next[0]],
+        fileB: versions[next[1]],
+        pair: next,
+        decisions: {},
+        selectedDiffId: undefined,
+        differenceCount: undefined,
+      }),
+      deleteSessionSnapshot(activeId),
+    ])
+      .then(refreshSessions)
+      .catch(() => {});
+  };
+
+  const handleBack = () => {
+    setDocView('upload');
+    setThreeWay(null);
+    setActiveSession(null);
+    localStorage.removeItem(ACTIVE_SESSION_KEY);
+  };
+
+  const handleSnapshot = useCallback(
+    (snapshot: SessionSnapshot) => {
+      if (!activeId) return;
+      saveSessionSnapshot(activeId, snapshot)
+        .then(() => updateSession(activeId, { differenceCount: snapshot.result.differences.length }))
+        .then(refreshSessions)
+        .catch(() => {});
+    },
+    [activeId, refreshSessions],
+  );
+
+  const handleReviewChange = useCallback(
+    (decisions: Record<number, ReviewDecision>, selectedDiffId: number | undefined) => {
+      if (!activeId) return;
+      const pending = reviewSaveRef.current;
+      pending.selectedDiffId = selectedDiffId;
+      // 只切换了选中的差异时不单独写入，随下一次审阅结果一起保存
+      if (decisions === pending.decisions) return;
+      pending.decisions = decisions;
+      clearTimeout(pending.timer);
+      pending.timer = setTimeout(() => {
+        updateSession(activeId, { decisions, selectedDiffId: pending.selectedDiffId })
+          .then(refreshSessions)
+          .catch(() => {});
+      }, REVIEW_SAVE_DELAY);
+    },
+    [activeId, refreshSessions],
+  );
+
+  const handleRename = (id: string, name: string) => {
+    updateSession(id, { name })
+      .then(refreshSessions)
+      .catch(() => {});
+  };
+
+  const handleDelete = (id: string) => {
+    if (id === activeId) handleBack();
+    deleteSession(id)
+      .then(refreshSessions)
+      .catch(() => {});
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
-      <div className="max-w-7xl mx-auto">
-        <div className="mb-8">
-          <div className="flex items-center gap-0">
-            <Image src="/logo.svg" alt="Logo" width={64} height={64} priority />
-            <div className="flex flex-col gap-[8px]">
-              <h1 className="text-2xl font-bold text-gray-900 leading-none">
-                Textora
-              </h1>
-              <p className="text-gray-600 text-sm leading-none">
-                智能对比两个文档的差异，自动标注并生成详细报告
-              </p>
+    <SidebarProvider defaultOpen={false}>
+      <SessionHistory
+        sessions={sessions}
+        activeId={activeId}
+        onOpen={(id) => {
+          openSession(id).catch(() => {});
+        }}
+        onRename={handleRename}
+        onDelete={handleDelete}
+      />
+      <SidebarInset className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-6">
+        <div className="max-w-7xl w-full mx-auto">
+          <div className="mb-8">
+            <div className="flex items-center gap-0">
+              <SidebarTrigger className="mr-2" title="对比历史" />
+              <Image src="/logo.svg" alt="Logo" width={64} height={64} priority />
+              <div className="flex flex-col gap-[8px]">
+                <h1 className="text-2xl font-bold text-gray-900 leading-none">
+                  Textora
+                </h1>
+                <p className="text-gray-600 text-sm leading-none">
+                  智能对比两个文档的差异，自动标注并生成详细报告
+                </p>
+              </div>
             </div>
           </div>
-        </div>
 
-        <Tabs
-          value={activeTab}
-          onValueChange={(value) => setActiveTab(value as 'doc' | 'design')}
-          className="space-y-6"
-        >
-          <TabsList className="grid w-full max-w-md grid-cols-2">
-            <TabsTrigger value="doc">文档比对</TabsTrigger>
-            <TabsTrigger value="design">设计走查</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="doc" className="space-y-6">
-            {docView === 'upload' ? (
-              <>
-                <div className="grid md:grid-cols-2 gap-6">
-                  <FileUploader
-                    label="文档 A（原始版本）"
-                    file={fileA}
-                    onFileSelect={setFileA}
-                  />
-                  <FileUploader
-                    label="文档 B（对比版本）"
-                    file={fileB}
-                    onFileSelect={setFileB}
-                  />
-                </div>
+          <Tabs
+            value={activeTab}
+            onValueChange={(value) => setActiveTab(value as 'doc' | 'sheet' | 'design')}
+            className="space-y-6"
+          >
+            <TabsList className="grid w-full max-w-md grid-cols-3">
+              <TabsTrigger value="doc">文档比对</TabsTrigger>
+              <TabsTrigger value="sheet">表格比对</TabsTrigger>
+              <TabsTrigger value="design">设计走查</TabsTrigger>
+            </TabsList>
 
-                {fileA && fileB && (
+            <TabsContent value="doc" className="space-y-6">
+              {docView === 'upload' ? (
+                <>
                   <div className="flex justify-center">
-                    <button
-                      onClick={handleStartComparison}
-                      className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-lg hover:shadow-xl"
-                    >
-                      自动对比分析
-                    </button>
+                    <div className="flex rounded-md border bg-white text-sm overflow-hidden">
+                      <button
+                        type="button"
+                        className={`px-4 py-1.5 ${compareMode === 'versions' ? 'bg-gray-900 text-white' : 'hover:bg-gray-50'}`}
+                        onClick={() => setCompareMode('versions')}
+                      >
+                        版本对比
+                      </button>
+                      <button
+                        type="button"
+                        className={`px-4 py-1.5 ${compareMode === 'three-way' ? 'bg-gray-900 text-white' : 'hover:bg-gray-50'}`}
+                        onClick={() => setCompareMode('three-way')}
+                      >
+                        三方合并
+                      </button>
+                    </div>
                   </div>
-                )}
-
-                <div className="mt-8 p-6 bg-white rounded-lg shadow-sm">
-                  <h3 className="font-semibold mb-4 text-lg">功能特点</h3>
-                  <div className="grid md:grid-cols-3 gap-4">
-                    <div className="space-y-2">
-                      <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center text-blue-600 font-bold">
-                        1
+
+                  {compareMode === 'three-way' ? (
+                    <>
+                      <div className="grid md:grid-cols-3 gap-6">
+                        {threeWayFiles.map((file, idx) => (
+                          <FileUploader
+                            key={idx}
+                            label={THREE_WAY_LABELS[idx]}
+                            file={file}
+                            onFileSelect={(next) =>
+                              setThreeWayFiles((prev) => prev.map((f, i) => (i === idx ? next : f)))
+                            }
+                          />
+                        ))}
                       </div>
-                      <h4 className="font-medium">智能对比</h4>
-                      <p className="text-sm text-gray-600">
-                        使用先进的文本对比算法，精准识别文档差异
-                      </p>
-                    </div>
-                    <div className="space-y-2">
-                      <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center text-green-600 font-bold">
-                        2
+
+                      {threeWayFiles.every((file) => !!file) && (
+                        <div className="flex justify-center">
+                          <button
+                            onClick={handleStartThreeWay}
+                            className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-lg hover:shadow-xl"
+                          >
+                            三方对比与合并
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <div className="grid md:grid-cols-2 gap-6">
+                        {files.map((file, idx) => (
+                          <FileUploader
+                            key={idx}
+                            label={
+                              files.length === 2
+                                ? idx === 0
+                                  ? '文档 A（原始版本）'
+                                  : '文档 B（对比版本）'
+                                : `版本 ${idx + 1}${idx === 0 ? '（原始版本）' : ''}`
+                            }
+                            file={file}
+                            onFileSelect={handleFileSelect(idx)}
+                          />
+                        ))}
                       </div>
-                      <h4 className="font-medium">可视化标注</h4>
-                      <p className="text-sm text-gray-600">
-                        在文档上直接标注差异位置，一目了然
-                      </p>
-                    </div>
-                    <div className="space-y-2">
-                      <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center text-purple-600 font-bold">
-                        3
+
+                      <div className="flex justify-center">
+                        <Button variant="outline" onClick={() => setFiles((prev) => [...prev, null])}>
+                          <Plus className="h-4 w-4" />
+                          添加版本
+                        </Button>
+                      </div>
+
+                      {readyFiles.length >= 2 && (
+                        <div className="flex justify-center">
+                          <button
+                            onClick={handleStartComparison}
+                            className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium shadow-lg hover:shadow-xl"
+                          >
+                            {readyFiles.length > 2 ? `对比 ${readyFiles.length} 个版本` : '自动对比分析'}
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  )}
+
+                  <div className="mt-8 p-6 bg-white rounded-lg shadow-sm">
+                    <h3 className="font-semibold mb-4 text-lg">功能特点</h3>
+                    <div className="grid md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center text-blue-600 font-bold">
+                          1
+                        </div>
+                        <h4 className="font-medium">智能对比</h4>
+                        <p className="text-sm text-gray-600">
+                          使用先进的文本对比算法，精准识别文档差异
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center text-green-600 font-bold">
+                          2
+                        </div>
+                        <h4 className="font-medium">可视化标注</h4>
+                        <p className="text-sm text-gray-600">
+                          在文档上直接标注差异位置，一目了然
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center text-purple-600 font-bold">
+                          3
+                        </div>
+                        <h4 className="font-medium">详细报告</h4>
+                        <p className="text-sm text-gray-600">
+                          自动生成结构化差异报告，支持导出
+                        </p>
                       </div>
-                      <h4 className="font-medium">详细报告</h4>
-                      <p className="text-sm text-gray-600">
-                        自动生成结构化差异报告，支持导出
-                      </p>
                     </div>
                   </div>
+                </>
+              ) : (
+                <div className="space-y-4 h-[calc(100vh-250px)]">
+                  <div className="flex flex-wrap items-center gap-4">
+                    <button
+                      type="button"
+                      className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+                      onClick={handleBack}
+                    >
+                      <span className="mr-1 text-lg leading-none">←</span>
+                      返回
+                    </button>
+                    {!threeWay && versions.length > 2 && (
+                      <VersionPairPicker
+                        versions={versions}
+                        pair={pair}
+                        onPairChange={handlePairChange}
+                        view={versionView}
+                        onViewChange={setVersionView}
+                      />
+                    )}
+                  </div>
+                  {threeWay ? (
+                    <ThreeWayComparator base={threeWay[0]} mine={threeWay[1]} theirs={threeWay[2]} />
+                  ) : (
+                    <>
+                      {versions.length > 2 && versionView === 'timeline' && (
+                        <VersionTimeline versions={versions} />
+                      )}
+                      {/* 查看时间线时保持对比组件挂载，审阅状态不丢失 */}
+                      <div className={versions.length > 2 && versionView === 'timeline' ? 'hidden' : 'h-full'}>
+                        <DocumentComparator
+                          key={`${activeId ?? 'unsaved'}:${pair.join('-')}`}
+                          fileA={fileA}
+                          fileB={fileB}
+                          initialState={activeSession?.saved}
+                          onSnapshot={handleSnapshot}
+                          onReviewChange={handleReviewChange}
+                        />
+                      </div>
+                    </>
+                  )}
                 </div>
-              </>
-            ) : (
-              <div className="space-y-4 h-[calc(100vh-250px)]">
-                <button
-                  type="button"
-                  className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
-                  onClick={() => setDocView('upload')}
-                >
-                  <span className="mr-1 text-lg leading-none">←</span>
-                  返回
-                </button>
-                <DocumentComparator fileA={fileA} fileB={fileB} />
-              </div>
-            )}
-          </TabsContent>
+              )}
+            </TabsContent>
 
-          <TabsContent value="design" className="space-y-6">
-            <DesignReview />
-          </TabsContent>
-        </Tabs>
-      </div>
-    </div>
+            <TabsContent value="sheet" className="space-y-6">
+              <SpreadsheetReview />
+            </TabsContent>
+
+            <TabsContent value="design" className="space-y-6">
+              <DesignReview />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
 
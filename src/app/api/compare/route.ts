@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import {
+  compareDocuments,
+  DEFAULT_COMPARE_OPTIONS,
+  type CompareOptions,
+} from "@/app/lib/compare";
+import { buildComparisonExport } from "@/app/lib/data-export";
+import { GRANULARITY_OPTIONS } from "@/app/lib/diff-granularity";
+import {
+  fileExtension,
+  readFileContent,
+  SUPPORTED_EXTENSIONS,
+} from "@/app/lib/read-document";
+
+// mammoth 与 pdfjs-dist 需要 Node.js 运行时
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+class BadRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400,
+  ) {
+    super(message);
+  }
+}
+
+const getFile = (form: FormData, field: string): File => {
+  const value = form.get(field);
+  if (!(value instanceof File)) {
+    throw new BadRequestError(`缺少文件字段 ${field}`);
+  }
+  if (!SUPPORTED_EXTENSIONS.includes(fileExtension(value.name))) {
+    throw new BadRequestError(
+      `不支持的文件类型：${value.name}（支持 ${SUPPORTED_EXTENSIONS.join("、")}）`,
+      415,
+    );
+  }
+  return value;
+};
+
+// options 字段为 JSON，未给出的选项取默认值
+const parseOptions = (raw: FormDataEntryValue | null): CompareOptions => {
+  if (raw === null) return DEFAULT_COMPARE_OPTIONS;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(String(raw));
+  } catch {
+    throw new BadRequestError("options 不是合法的 JSON");
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new BadRequestError("options 必须是 JSON 对象");
+  }
+
+  const options: CompareOptions = { ...DEFAULT_COMPARE_OPTIONS };
+  for (const [key, value] of Object.entries(parsed)) {
+    if (key === "granularity") {
+      if (!GRANULARITY_OPTIONS.some((option) => option.value === value)) {
+        throw new BadRequestError(`无效的 granularity：${String(value)}`);
+      }
+      options.granularity = value;
+    } else if (Object.hasOwn(DEFAULT_COMPARE_OPTIONS, key)) {
+      if (typeof value !== "boolean") {
+        throw new BadRequestError(`选项 ${key} 必须是布尔值`);
+      }
+      options[key as Exclude<keyof CompareOptions, "granularity">] = value;
+    } else {
+      throw new BadRequestError(`未知的选项：${key}`);
+    }
+  }
+  return options;
+};
+
+/**
+ * 无界面对比接口：multipart/form-data 上传 fileA、fileB（可选 options JSON），
+ * 返回与“导出数据 → JSON”相同结构的差异、片段与统计。
+ */
+export async function POST(request: Request) {
+  try {
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      throw new BadRequestError("请求体必须是 multipart/form-data");
+    }
+
+    const fileA = getFile(form, "fileA");
+    const fileB = getFile(form, "fileB");
+    const options = parseOptions(form.get("options"));
+
+    const [docA, docB] = await Promise.all([
+      readFileContent(fileA),
+      readFileContent(fileB),
+    ]);
+    const result = compareDocuments(docA, docB, options);
+
+    return NextResponse.json(
+      buildComparisonExport({
+        fileA,
+        fileB,
+        options,
+        contentA: docA.text,
+        contentB: docB.text,
+        differences: result.differences,
+        differencesA: result.differencesA,
+        differencesB: result.differencesB,
+        generatedAt: new Date(),
+      }),
+    );
+  } catch (err) {
+    if (err instanceof BadRequestError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    return NextResponse.json(
+      { error: `对比失败：${err instanceof Error ? err.message : String(err)}` },
+      { status: 500 },
+    );
+  }
+}
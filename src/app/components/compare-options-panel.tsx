@@ -0,0 +1,55 @@
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { Label } from '@/app/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/app/components/ui/popover';
+import { Switch } from '@/app/components/ui/switch';
+import { IGNORE_OPTION_LABELS, type CompareOptions } from '@/app/lib/compare';
+
+interface CompareOptionsPanelProps {
+  options: CompareOptions;
+  onChange: (options: CompareOptions) => void;
+}
+
+const IGNORE_KEYS = Object.keys(IGNORE_OPTION_LABELS) as (keyof typeof IGNORE_OPTION_LABELS)[];
+
+export function CompareOptionsPanel({ options, onChange }: CompareOptionsPanelProps) {
+  const activeCount = IGNORE_KEYS.filter((key) => options[key]).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <SlidersHorizontal className="h-4 w-4" />
+          对比选项
+          {activeCount > 0 && (
+            <span className="ml-1 rounded-full bg-blue-600 px-1.5 text-xs text-white">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64">
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium text-sm">忽略差异</h4>
+            <p className="text-xs text-gray-500 mt-1">
+              开启后这些差异不再计入报告，高亮仍对应原文位置
+            </p>
+          </div>
+          {IGNORE_KEYS.map((key) => (
+            <div key={key} className="flex items-center justify-between">
+              <Label htmlFor={`compare-option-${key}`} className="font-normal">
+                {IGNORE_OPTION_LABELS[key]}
+              </Label>
+              <Switch
+                id={`compare-option-${key}`}
+                checked={options[key]}
+                onCheckedChange={(checked) => onChange({ ...options, [key]: checked })}
+              />
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,45 +1,158 @@
+import { useState } from 'react';
 import { Card } from '@/app/components/ui/card';
 import { ScrollArea } from '@/app/components/ui/scroll-area';
 import { Badge } from '@/app/components/ui/badge';
-
-export interface DiffItem {
-  id: number;
-  type: 'addition' | 'deletion' | 'modification';
-  textA: string;
-  textB: string;
-  position: string;
-}
+import { Button } from '@/app/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/app/components/ui/dropdown-menu';
+import { Check, Database, FileDown, Printer, X } from 'lucide-react';
+import type { DiffItem } from '@/app/lib/compare';
+import type { ReviewDecision } from '@/app/lib/merge';
+import { ORIGIN_LABELS } from '@/app/lib/three-way';
+import { DATA_EXPORT_FORMATS, type DataExportFormat } from '@/app/lib/data-export';
 
 interface DiffReportProps {
   differences: DiffItem[];
   onItemClick: (id: number) => void;
   selectedId?: number;
+  sideLabels?: [string, string];
+  // 审阅：不传 onDecisionChange 时不显示接受/拒绝按钮
+  decisions?: Record<number, ReviewDecision>;
+  onDecisionChange?: (id: number, decision: ReviewDecision | undefined) => void;
+  onDecideAll?: (decision: ReviewDecision) => void;
+  onExportHtml?: () => void;
+  onExportPdf?: () => void;
+  onExportData?: (format: DataExportFormat) => void;
 }
 
-export function DiffReport({ differences, onItemClick, selectedId }: DiffReportProps) {
+const TYPE_CONFIGS: Record<DiffItem['type'], { label: string; className: string }> = {
+  addition: { label: '新增', className: 'bg-green-100 text-green-800' },
+  deletion: { label: '删除', className: 'bg-red-100 text-red-800' },
+  modification: { label: '修改', className: 'bg-yellow-100 text-yellow-800' },
+  moved: { label: '移动', className: 'bg-blue-100 text-blue-800' },
+  format: { label: '格式', className: 'bg-purple-100 text-purple-800' },
+  conflict: { label: '冲突', className: 'bg-orange-100 text-orange-800' },
+};
+
+export function DiffReport({
+  differences,
+  onItemClick,
+  selectedId,
+  sideLabels = ['文档 A', '文档 B'],
+  decisions = {},
+  onDecisionChange,
+  onDecideAll,
+  onExportHtml,
+  onExportPdf,
+  onExportData,
+}: DiffReportProps) {
+  const [typeFilter, setTypeFilter] = useState<DiffItem['type'] | null>(null);
+
   const getTypeBadge = (type: DiffItem['type']) => {
-    const configs = {
-      addition: { label: '新增', className: 'bg-green-100 text-green-800' },
-      deletion: { label: '删除', className: 'bg-red-100 text-red-800' },
-      modification: { label: '修改', className: 'bg-yellow-100 text-yellow-800' },
-    };
-    
-    const config = configs[type];
+    const config = TYPE_CONFIGS[type];
     return <Badge className={config.className}>{config.label}</Badge>;
   };
 
+  // 只列出实际出现的类型；筛掉的类型不再出现时恢复显示全部
+  const typeCounts = (Object.keys(TYPE_CONFIGS) as DiffItem['type'][])
+    .map((type) => ({ type, count: differences.filter((d) => d.type === type).length }))
+    .filter(({ count }) => count > 0);
+  const activeFilter = typeCounts.some(({ type }) => type === typeFilter) ? typeFilter : null;
+  const visibleDifferences = activeFilter
+    ? differences.filter((d) => d.type === activeFilter)
+    : differences;
+
+  const acceptedCount = differences.filter((d) => decisions[d.id] === 'accepted').length;
+  const rejectedCount = differences.filter((d) => decisions[d.id] === 'rejected').length;
+
+  // 再次点击已选中的决定时撤销
+  const toggleDecision = (id: number, decision: ReviewDecision) => {
+    onDecisionChange?.(id, decisions[id] === decision ? undefined : decision);
+  };
+
   return (
     <Card className="h-full flex flex-col overflow-hidden">
-      <div className="p-4 border-b shrink-0">
-        <h3 className="font-medium">差异报告</h3>
-        <p className="text-sm text-gray-500 mt-1">
-          共发现 {differences.length} 处差异
-        </p>
+      <div className="p-4 border-b shrink-0 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-medium">差异报告</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            共发现 {differences.length} 处差异
+            {onDecisionChange && differences.length > 0 && (
+              <>，已接受 {acceptedCount} 处，已拒绝 {rejectedCount} 处</>
+            )}
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {onDecideAll && differences.length > 0 && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => onDecideAll('accepted')}>
+                <Check className="h-4 w-4" />
+                全部接受
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onDecideAll('rejected')}>
+                <X className="h-4 w-4" />
+                全部拒绝
+              </Button>
+            </>
+          )}
+          {onExportHtml && (
+            <Button variant="outline" size="sm" disabled={differences.length === 0} onClick={onExportHtml}>
+              <FileDown className="h-4 w-4" />
+              导出 HTML
+            </Button>
+          )}
+          {onExportPdf && (
+            <Button variant="outline" size="sm" disabled={differences.length === 0} onClick={onExportPdf}>
+              <Printer className="h-4 w-4" />
+              打印 / PDF
+            </Button>
+          )}
+          {onExportData && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={differences.length === 0}>
+                  <Database className="h-4 w-4" />
+                  导出数据
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {DATA_EXPORT_FORMATS.map((format) => (
+                  <DropdownMenuItem key={format.value} onSelect={() => onExportData(format.value)}>
+                    {format.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
       </div>
+
+      {typeCounts.length > 1 && (
+        <div className="px-4 py-2 border-b shrink-0 flex flex-wrap gap-1">
+          {[{ type: null, count: differences.length }, ...typeCounts].map(({ type, count }) => (
+            <button
+              key={type ?? 'all'}
+              type="button"
+              className={`px-2 py-0.5 text-xs rounded border ${
+                activeFilter === type
+                  ? 'bg-gray-800 border-gray-800 text-white'
+                  : 'border-gray-200 text-gray-600 hover:bg-gray-100'
+              }`}
+              onClick={() => setTypeFilter(type)}
+            >
+              {type ? TYPE_CONFIGS[type].label : '全部'} {count}
+            </button>
+          ))}
+        </div>
+      )}
       
       <ScrollArea className="flex-1">
         <div className="p-4 space-y-3">
-          {differences.map((diff) => (
+          {visibleDifferences.map((diff) => (
             <div
               key={diff.id}
               className={`p-4 border rounded-lg cursor-pointer transition-all hover:shadow-md ${
@@ -50,19 +163,57 @@ export function DiffReport({ differences, onItemClick, selectedId }: DiffReportP
               <div className="flex items-center gap-2 mb-2">
                 <span className="font-semibold text-gray-700">#{diff.id}</span>
                 {getTypeBadge(diff.type)}
+                {diff.origin && diff.origin !== 'conflict' && (
+                  <Badge variant="outline">{ORIGIN_LABELS[diff.origin]}</Badge>
+                )}
                 <span className="text-xs text-gray-500">{diff.position}</span>
+                {!!diff.editCount && (
+                  <span className="text-xs text-blue-700">块内改动 {diff.editCount} 处</span>
+                )}
+                {diff.formatChange && (
+                  <span className="text-xs text-purple-700">{diff.formatChange}</span>
+                )}
+                {/* 合并结果只含文字，格式变化无需审阅 */}
+                {onDecisionChange && diff.type !== 'format' && (
+                  <div className="ml-auto flex gap-1" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      type="button"
+                      className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded border ${
+                        decisions[diff.id] === 'accepted'
+                          ? 'bg-green-600 border-green-600 text-white'
+                          : 'border-gray-200 text-gray-600 hover:bg-green-50'
+                      }`}
+                      onClick={() => toggleDecision(diff.id, 'accepted')}
+                    >
+                      <Check className="h-3 w-3" />
+                      接受
+                    </button>
+                    <button
+                      type="button"
+                      className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded border ${
+                        decisions[diff.id] === 'rejected'
+                          ? 'bg-gray-700 border-gray-700 text-white'
+                          : 'border-gray-200 text-gray-600 hover:bg-gray-100'
+                      }`}
+                      onClick={() => toggleDecision(diff.id, 'rejected')}
+                    >
+                      <X className="h-3 w-3" />
+                      拒绝
+                    </button>
+                  </div>
+                )}
               </div>
               
               <div className="grid grid-cols-2 gap-3 mt-3">
                 <div className="space-y-1">
-                  <div className="text-xs font-medium text-gray-500">文档 A</div>
+                  <div className="text-xs font-medium text-gray-500">{sideLabels[0]}</div>
                   <div className="text-sm p-2 bg-red-50 border border-red-200 rounded">
                     {diff.textA || <span className="text-gray-400 italic">（无）</span>}
                   </div>
                 </div>
                 
                 <div className="space-y-1">
-                  <div className="text-xs font-medium text-gray-500">文档 B</div>
+                  <div className="text-xs font-medium text-gray-500">{sideLabels[1]}</div>
                   <div className="text-sm p-2 bg-green-50 border border-green-200 rounded">
                     {diff.textB || <span className="text-gray-400 italic">（无）</span>}
                   </div>
@@ -1,232 +1,399 @@
-import { useMemo, useRef, useState, useEffect } from "react";
-import DiffMatchPatch from "diff-match-patch";
-import { DocumentViewer } from "./document-viewer";
-import { DiffReport, DiffItem } from "./diff-report";
-import { Loader2 } from "lucide-react";
-import mammoth from "mammoth";
+import { useEffect, useMemo, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import { DocumentViewer, type DocumentViewerHandle } from "./document-viewer";
+import { DiffReport } from "./diff-report";
+import { CompareOptionsPanel } from "./compare-options-panel";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/app/components/ui/button";
+import {
+  DEFAULT_COMPARE_OPTIONS,
+  type CompareOptions,
+  type ComparisonResult,
+} from "@/app/lib/compare";
+import {
+  isSourceCodeFile,
+  type ParsedDocument,
+} from "@/app/lib/read-document";
+import { buildMergedText, type ReviewDecision } from "@/app/lib/merge";
+import type { SessionSnapshot } from "@/app/lib/session-store";
+import { baseName, downloadBlob, printHtml } from "@/app/lib/download";
+import { buildHtmlReport } from "@/app/lib/report-export";
+import {
+  buildComparisonExport,
+  toCsvBlobs,
+  toJsonBlob,
+  toXlsxBlob,
+  type DataExportFormat,
+} from "@/app/lib/data-export";
+import { textToDocx } from "@/app/lib/docx-export";
+import { mapAlignedLine } from "@/app/lib/line-alignment";
+import {
+  isCancelledError,
+  STAGE_LABELS,
+  startCompareJob,
+  type CompareStage,
+  type DocumentSource,
+} from "@/app/lib/compare-job";
+import {
+  GRANULARITY_OPTIONS,
+  type DiffGranularity,
+} from "@/app/lib/diff-granularity";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/app/components/ui/select";
+
+// react-pdf 只能在浏览器中运行
+const PdfDocumentViewer = dynamic(
+  () => import("./pdf-document-viewer").then((m) => m.PdfDocumentViewer),
+  { ssr: false },
+);
+
+const EMPTY_RESULT: ComparisonResult = {
+  differences: [],
+  differencesA: [],
+  differencesB: [],
+  lineAnchors: [],
+  unified: { text: "", differences: [] },
+  mergeChunks: [],
+};
+
+// 从历史会话恢复时的初始状态
+export interface SavedComparison {
+  snapshot?: SessionSnapshot;
+  decisions: Record<number, ReviewDecision>;
+  selectedDiffId?: number;
+}
 
 interface DocumentComparatorProps {
   fileA: File | null;
   fileB: File | null;
-}
-
-export interface DifferenceSegment {
-  id: number;
-  type: "addition" | "deletion";
-  line: number; // 0-based line index (split by \n)
-  startCol: number; // 0-based column in the line
-  endCol: number; // exclusive
-  text: string;
+  initialState?: SavedComparison;
+  // 对比完成后回调，用于保存会话
+  onSnapshot?: (snapshot: SessionSnapshot) => void;
+  onReviewChange?: (
+    decisions: Record<number, ReviewDecision>,
+    selectedDiffId: number | undefined,
+  ) => void;
 }
 
 export function DocumentComparator({
   fileA,
   fileB,
+  initialState,
+  onSnapshot,
+  onReviewChange,
 }: DocumentComparatorProps) {
-  const [contentA, setContentA] = useState("");
-  const [contentB, setContentB] = useState("");
-  const [differences, setDifferences] = useState<DiffItem[]>(
-    [],
+  const restored = initialState?.snapshot;
+  const [docA, setDocA] = useState<ParsedDocument | null>(
+    restored?.docA ?? null,
+  );
+  const [docB, setDocB] = useState<ParsedDocument | null>(
+    restored?.docB ?? null,
   );
-  const [differencesA, setDifferencesA] = useState<
-    DifferenceSegment[]
-  >([]);
-  const [differencesB, setDifferencesB] = useState<
-    DifferenceSegment[]
-  >([]);
+  const [pdfView, setPdfView] = useState<"page" | "text">("page");
+  const [layout, setLayout] = useState<"split" | "unified" | "merged">(
+    "split",
+  );
+  // 早期保存的会话缺少后来新增的选项，用默认值补齐；两侧都是源代码时默认按行对比
+  const [options, setOptions] = useState<CompareOptions>({
+    ...DEFAULT_COMPARE_OPTIONS,
+    ...(fileA &&
+      fileB &&
+      isSourceCodeFile(fileA.name) &&
+      isSourceCodeFile(fileB.name) && { granularity: "line" }),
+    ...restored?.options,
+  });
+  // 恢复会话时的初始选项；用户改动选项后 options 换成新对象，才需要重新对比
+  const restoredOptionsRef = useRef(restored && options);
+  const [result, setResult] = useState<ComparisonResult | null>(
+    restored?.result ?? null,
+  );
+  const [decisions, setDecisions] = useState<
+    Record<number, ReviewDecision>
+  >(initialState?.decisions ?? {});
+  const [syncScroll, setSyncScroll] = useState(true);
+  const viewerARef = useRef<DocumentViewerHandle>(null);
+  const viewerBRef = useRef<DocumentViewerHandle>(null);
   const [selectedDiffId, setSelectedDiffId] = useState<
     number | undefined
-  >();
-  const [isComparing, setIsComparing] = useState(false);
-  const lastComparedKeyRef = useRef<string>("");
-
-  // 读取文件内容
-  const readFileContent = async (
-    file: File,
-  ): Promise<string> => {
-    const fileType = file.name.split(".").pop()?.toLowerCase();
-
-    if (fileType === "txt") {
-      return await file.text();
-    } else if (fileType === "docx" || fileType === "doc") {
-      const arrayBuffer = await file.arrayBuffer();
-      const result = await mammoth.extractRawText({
-        arrayBuffer,
-      });
-      return result.value;
-    } else if (fileType === "pdf") {
-      // PDF处理会在后续版本中添加
-      return "暂不支持PDF格式的详细对比，请转换为TXT或DOCX格式";
-    }
-
-    return "";
-  };
-
-  // 加载文件
-  useEffect(() => {
-    if (fileA) {
-      readFileContent(fileA).then(setContentA);
-    } else {
-      setContentA("");
-    }
-  }, [fileA]);
-
+  >(initialState?.selectedDiffId);
+  const [progress, setProgress] = useState<{
+    stage: CompareStage;
+    value: number;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // 缓存已解析的文档，只切换对比选项时不必重新解析文件
+  const parsedRef = useRef<{
+    A?: { file: File; doc: ParsedDocument };
+    B?: { file: File; doc: ParsedDocument };
+  }>(
+    restored && fileA && fileB
+      ? {
+          A: { file: fileA, doc: restored.docA },
+          B: { file: fileB, doc: restored.docB },
+        }
+      : {},
+  );
+  // 回调只在异步任务完成时读取，放在 ref 中避免重新触发对比
+  const onSnapshotRef = useRef(onSnapshot);
+  onSnapshotRef.current = onSnapshot;
+
+  const {
+    differences,
+    differencesA,
+    differencesB,
+    lineAnchors,
+    unified,
+    mergeChunks,
+  } = result ?? EMPTY_RESULT;
+  const contentA = docA?.text ?? "";
+  const contentB = docB?.text ?? "";
+  const pdfA = docA?.pdf;
+  const pdfB = docB?.pdf;
+  const bothPdf = !!pdfA && !!pdfB;
+
+  // 执行对比（文件或选项变化时自动触发；新任务开始或组件卸载时取消旧任务）
   useEffect(() => {
-    if (fileB) {
-      readFileContent(fileB).then(setContentB);
-    } else {
-      setContentB("");
-    }
-  }, [fileB]);
-
-  const compareKey = useMemo(() => {
-    // Avoid comparing huge strings in deps; use file metadata + content length as a coarse key.
-    // If content changes but length stays the same, diff might not refresh; include a small prefix.
-    const metaA = fileA
-      ? `${fileA.name}:${fileA.size}:${fileA.lastModified}`
-      : "noA";
-    const metaB = fileB
-      ? `${fileB.name}:${fileB.size}:${fileB.lastModified}`
-      : "noB";
-    const sigA = `${contentA.length}:${contentA.slice(0, 32)}`;
-    const sigB = `${contentB.length}:${contentB.slice(0, 32)}`;
-    return `${metaA}|${metaB}|${sigA}|${sigB}`;
-  }, [fileA, fileB, contentA, contentB]);
-
-  // 执行对比（自动触发）
-  const performComparison = () => {
-    if (!contentA || !contentB) return;
-
-    setIsComparing(true);
-
-    // Run in next tick to allow UI to show "comparing" state.
-    queueMicrotask(() => {
-      const dmp = new DiffMatchPatch();
-      const diffs = dmp.diff_main(contentA, contentB);
-
-      const diffItems: DiffItem[] = [];
-      const diffsA: DifferenceSegment[] = [];
-      const diffsB: DifferenceSegment[] = [];
-      let diffId = 1;
-
-      type Cursor = { line: number; col: number };
-      const cursorA: Cursor = { line: 0, col: 0 };
-      const cursorB: Cursor = { line: 0, col: 0 };
-
-      const advanceCursor = (cursor: Cursor, text: string) => {
-        const parts = text.split("\n");
-        if (parts.length === 1) {
-          cursor.col += text.length;
-          return;
+    if (!fileA || !fileB) return;
+    // 恢复的会话在选项未改动前直接沿用保存的结果
+    if (options === restoredOptionsRef.current) return;
+
+    const cached = parsedRef.current;
+    const sourceFor = (side: "A" | "B", file: File): DocumentSource => {
+      const entry = cached[side];
+      return entry?.file === file ? { parsed: entry.doc } : { file };
+    };
+
+    const job = startCompareJob(
+      {
+        sourceA: sourceFor("A", fileA),
+        sourceB: sourceFor("B", fileB),
+        options,
+      },
+      {
+        onProgress: (stage, value) => setProgress({ stage, value }),
+        onDocument: (side, doc) => {
+          parsedRef.current[side] = {
+            file: side === "A" ? fileA : fileB,
+            doc,
+          };
+          if (side === "A") setDocA(doc);
+          else setDocB(doc);
+        },
+      },
+    );
+
+    setError(null);
+    setSelectedDiffId(undefined);
+    setProgress({ stage: "parseA", value: 0 });
+
+    job.promise
+      .then((next) => {
+        setResult(next);
+        // 差异编号随每次对比重新生成，之前的审阅结果不再适用
+        setDecisions({});
+        setProgress(null);
+        const { A, B } = parsedRef.current;
+        if (A && B) {
+          onSnapshotRef.current?.({
+            options,
+            docA: A.doc,
+            docB: B.doc,
+            result: next,
+          });
         }
-        cursor.line += parts.length - 1;
-        cursor.col = parts[parts.length - 1].length;
-      };
+      })
+      .catch((err: unknown) => {
+        if (isCancelledError(err)) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setProgress(null);
+      });
 
-      const addSegmentsForText = (
-        which: "A" | "B",
-        text: string,
-        baseCursor: Cursor,
-        startingId: number,
-      ): number => {
-        const lines = text.split("\n");
-        let line = baseCursor.line;
-        let col = baseCursor.col;
-        let nextId = startingId;
+    return () => job.cancel();
+  }, [fileA, fileB, options, restored]);
 
-        lines.forEach((chunk, idx) => {
-          if (chunk.length > 0) {
-            const positionStr = `第 ${line + 1} 行，第 ${col + 1} 字符`;
+  useEffect(() => {
+    onReviewChange?.(decisions, selectedDiffId);
+  }, [decisions, selectedDiffId, onReviewChange]);
 
-            diffItems.push({
-              id: nextId,
-              type: which === "A" ? "deletion" : "addition",
-              textA:
-                which === "A"
-                  ? chunk.substring(0, 50) + (chunk.length > 50 ? "..." : "")
-                  : "",
-              textB:
-                which === "B"
-                  ? chunk.substring(0, 50) + (chunk.length > 50 ? "..." : "")
-                  : "",
-              position: positionStr,
-            });
+  const handleDifferenceClick = (id: number) => {
+    setSelectedDiffId(id);
+  };
 
-            const segment: DifferenceSegment = {
-              id: nextId,
-              type: which === "A" ? "deletion" : "addition",
-              line,
-              startCol: col,
-              endCol: col + chunk.length,
-              text: chunk,
-            };
+  const handleDecisionChange = (
+    id: number,
+    decision: ReviewDecision | undefined,
+  ) => {
+    setDecisions((prev) => {
+      const next = { ...prev };
+      if (decision) next[id] = decision;
+      else delete next[id];
+      return next;
+    });
+  };
 
-            if (which === "A") diffsA.push(segment);
-            else diffsB.push(segment);
+  const handleDecideAll = (decision: ReviewDecision) => {
+    setDecisions(
+      Object.fromEntries(differences.map((diff) => [diff.id, decision])),
+    );
+  };
 
-            nextId++;
-          }
+  const mergedText = useMemo(
+    () => buildMergedText(mergeChunks, decisions),
+    [mergeChunks, decisions],
+  );
 
-          if (idx < lines.length - 1) {
-            line += 1;
-            col = 0;
-          } else {
-            col += chunk.length;
-          }
-        });
+  const mergedFileName = (ext: string) =>
+    `${baseName(fileA?.name ?? "文档")}-合并.${ext}`;
 
-        return nextId;
-      };
+  const handleDownloadTxt = () => {
+    downloadBlob(
+      new Blob([mergedText], { type: "text/plain;charset=utf-8" }),
+      mergedFileName("txt"),
+    );
+  };
 
-      diffs.forEach((diff) => {
-        const [type, text] = diff;
+  const buildReport = () =>
+    buildHtmlReport(differences, {
+      fileNameA: fileA?.name ?? "文档 A",
+      fileNameB: fileB?.name ?? "文档 B",
+      generatedAt: new Date(),
+      decisions,
+    });
 
-        if (type === -1) {
-          diffId = addSegmentsForText("A", text, cursorA, diffId);
-          advanceCursor(cursorA, text);
-        } else if (type === 1) {
-          diffId = addSegmentsForText("B", text, cursorB, diffId);
-          advanceCursor(cursorB, text);
-        } else {
-          advanceCursor(cursorA, text);
-          advanceCursor(cursorB, text);
-        }
-      });
+  const handleExportHtml = () => {
+    downloadBlob(
+      new Blob([buildReport()], { type: "text/html;charset=utf-8" }),
+      `${baseName(fileA?.name ?? "文档")}-差异报告.html`,
+    );
+  };
 
-      setDifferences(diffItems);
-      setDifferencesA(diffsA);
-      setDifferencesB(diffsB);
-      setIsComparing(false);
+  const handleExportData = async (format: DataExportFormat) => {
+    if (!fileA || !fileB) return;
+    const data = buildComparisonExport({
+      fileA,
+      fileB,
+      options,
+      contentA,
+      contentB,
+      differences,
+      differencesA,
+      differencesB,
+      generatedAt: new Date(),
     });
+    const name = `${baseName(fileA.name)}-对比数据`;
+
+    try {
+      if (format === "json") {
+        downloadBlob(toJsonBlob(data), `${name}.json`);
+      } else if (format === "csv") {
+        const csv = toCsvBlobs(data);
+        downloadBlob(csv.differences, `${name}-差异.csv`);
+        downloadBlob(csv.segments, `${name}-片段.csv`);
+      } else {
+        downloadBlob(await toXlsxBlob(data), `${name}.xlsx`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
   };
 
-  const handleDifferenceClick = (id: number) => {
-    setSelectedDiffId(id);
+  const handleDownloadDocx = async () => {
+    try {
+      downloadBlob(await textToDocx(mergedText), mergedFileName("docx"));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
   };
 
-  const canCompare = fileA && fileB && contentA && contentB;
-
-  useEffect(() => {
-    if (!canCompare) return;
-    if (isComparing) return;
-    if (lastComparedKeyRef.current === compareKey) return;
-
-    lastComparedKeyRef.current = compareKey;
-    setSelectedDiffId(undefined);
-    performComparison();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [canCompare, compareKey]);
+  // 一侧滚动时按差异对齐关系驱动另一侧
+  const handleTopLineChange = (side: "A" | "B") => (line: number) => {
+    const target = side === "A" ? viewerBRef.current : viewerARef.current;
+    target?.scrollToLine(mapAlignedLine(lineAnchors, line, side));
+  };
 
   return (
     <div className="space-y-4 h-full flex flex-col">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold">文档对比</h2>
-        {isComparing && (
-          <div className="flex items-center text-sm text-gray-500">
-            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-            对比中...
+        <div className="flex items-center gap-4">
+          {progress && (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              对比中... {STAGE_LABELS[progress.stage]}{" "}
+              {Math.round(progress.value * 100)}%
+            </div>
+          )}
+          {error && (
+            <div className="text-sm text-red-500">对比失败：{error}</div>
+          )}
+          <Select
+            value={options.granularity}
+            onValueChange={(value) =>
+              setOptions({
+                ...options,
+                granularity: value as DiffGranularity,
+              })
+            }
+          >
+            <SelectTrigger size="sm" className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRANULARITY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <CompareOptionsPanel options={options} onChange={setOptions} />
+          <div className="flex rounded-md border text-sm overflow-hidden">
+            <button
+              type="button"
+              className={`px-3 py-1 ${layout === "split" ? "bg-gray-900 text-white" : "hover:bg-gray-50"}`}
+              onClick={() => setLayout("split")}
+            >
+              并排
+            </button>
+            <button
+              type="button"
+              className={`px-3 py-1 ${layout === "unified" ? "bg-gray-900 text-white" : "hover:bg-gray-50"}`}
+              onClick={() => setLayout("unified")}
+            >
+              统一
+            </button>
+            <button
+              type="button"
+              className={`px-3 py-1 ${layout === "merged" ? "bg-gray-900 text-white" : "hover:bg-gray-50"}`}
+              onClick={() => setLayout("merged")}
+            >
+              合并
+            </button>
           </div>
-        )}
+          {bothPdf && layout === "split" && (
+            <div className="flex rounded-md border text-sm overflow-hidden">
+              <button
+                type="button"
+                className={`px-3 py-1 ${pdfView === "page" ? "bg-gray-900 text-white" : "hover:bg-gray-50"}`}
+                onClick={() => setPdfView("page")}
+              >
+                页面视图
+              </button>
+              <button
+                type="button"
+                className={`px-3 py-1 ${pdfView === "text" ? "bg-gray-900 text-white" : "hover:bg-gray-50"}`}
+                onClick={() => setPdfView("text")}
+              >
+                文本视图
+              </button>
+            </div>
+          )}
+        </div>
       </div>
 
       <div className="h-[500px]">
@@ -234,25 +401,113 @@ export function DocumentComparator({
           differences={differences}
           onItemClick={handleDifferenceClick}
           selectedId={selectedDiffId}
+          decisions={decisions}
+          onDecisionChange={handleDecisionChange}
+          onDecideAll={handleDecideAll}
+          onExportHtml={handleExportHtml}
+          onExportPdf={() => printHtml(buildReport())}
+          onExportData={handleExportData}
         />
       </div>
 
-      <div className="grid grid-cols-2 gap-4 flex-1 min-h-0">
-        <DocumentViewer
-          title="文档 A"
-          content={contentA || "请上传文档 A"}
-          differences={differencesA}
-          onDifferenceClick={handleDifferenceClick}
-          selectedId={selectedDiffId}
-        />
-        <DocumentViewer
-          title="文档 B"
-          content={contentB || "请上传文档 B"}
-          differences={differencesB}
-          onDifferenceClick={handleDifferenceClick}
-          selectedId={selectedDiffId}
-        />
-      </div>
+      {layout === "merged" ? (
+        <div className="flex-1 min-h-0 flex flex-col gap-2">
+          <div className="flex items-center justify-end gap-2">
+            <span className="mr-auto text-sm text-gray-500">
+              接受的差异采用文档 B 的内容，其余保留文档 A
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={mergeChunks.length === 0}
+              onClick={handleDownloadTxt}
+            >
+              <Download className="h-4 w-4" />
+              下载 TXT
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={mergeChunks.length === 0}
+              onClick={handleDownloadDocx}
+            >
+              <Download className="h-4 w-4" />
+              下载 DOCX
+            </Button>
+          </div>
+          <div className="flex-1 min-h-0">
+            <DocumentViewer
+              title="合并结果"
+              content={mergedText || "请上传文档"}
+              differences={[]}
+              onDifferenceClick={handleDifferenceClick}
+            />
+          </div>
+        </div>
+      ) : layout === "unified" ? (
+        <div className="flex-1 min-h-0">
+          <DocumentViewer
+            title="修订视图"
+            content={unified.text || "请上传文档"}
+            differences={unified.differences}
+            onDifferenceClick={handleDifferenceClick}
+            selectedId={selectedDiffId}
+            highlightStyle="redline"
+          />
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-4 flex-1 min-h-0">
+          {bothPdf && pdfView === "page" && fileA && fileB ? (
+            <>
+              <PdfDocumentViewer
+                title="文档 A"
+                file={fileA}
+                layout={pdfA}
+                differences={differencesA}
+                onDifferenceClick={handleDifferenceClick}
+                selectedId={selectedDiffId}
+              />
+              <PdfDocumentViewer
+                title="文档 B"
+                file={fileB}
+                layout={pdfB}
+                differences={differencesB}
+                onDifferenceClick={handleDifferenceClick}
+                selectedId={selectedDiffId}
+              />
+            </>
+          ) : (
+            <>
+              <DocumentViewer
+                ref={viewerARef}
+                title="文档 A"
+                content={contentA || "请上传文档 A"}
+                markup={docA?.markup}
+                code={docA?.code}
+                differences={differencesA}
+                onDifferenceClick={handleDifferenceClick}
+                selectedId={selectedDiffId}
+                syncScroll={syncScroll}
+                onSyncScrollChange={setSyncScroll}
+                onTopLineChange={handleTopLineChange("A")}
+              />
+              <DocumentViewer
+                ref={viewerBRef}
+                title="文档 B"
+                content={contentB || "请上传文档 B"}
+                markup={docB?.markup}
+                code={docB?.code}
+                differences={differencesB}
+                onDifferenceClick={handleDifferenceClick}
+                selectedId={selectedDiffId}
+                syncScroll={syncScroll}
+                onSyncScrollChange={setSyncScroll}
+                onTopLineChange={handleTopLineChange("B")}
+              />
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,6 +1,19 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Link2, Link2Off } from 'lucide-react';
 import { Card } from '@/app/components/ui/card';
-import type { DifferenceSegment } from './document-comparator';
+import type { DifferenceSegment } from '@/app/lib/compare';
+import type { MarkupDocumentText } from '@/app/lib/markup-structure';
+import type { CodeTokenKind, SourceCodeText } from '@/app/lib/source-code';
+import type { TextFormat } from '@/app/lib/text-format';
 
 interface DocumentViewerProps {
   title: string;
@@ -8,19 +21,87 @@ interface DocumentViewerProps {
   differences: DifferenceSegment[];
   onDifferenceClick: (id: number) => void;
   selectedId?: number;
+  // box：框出差异字符（并排视图）；redline：删除线/下划线修订样式（统一视图）
+  highlightStyle?: 'box' | 'redline';
+  // 同步滚动：用户滚动时报告视口顶部所在的（小数）行号
+  syncScroll?: boolean;
+  onSyncScrollChange?: (enabled: boolean) => void;
+  onTopLineChange?: (line: number) => void;
+  // Markdown / HTML 文档：按块类型和行内格式渲染（与 content 相同时才使用）
+  markup?: MarkupDocumentText;
+  // 源代码：等宽字体、行号与语法高亮
+  code?: SourceCodeText;
 }
 
-export function DocumentViewer({
+export interface DocumentViewerHandle {
+  scrollToLine: (line: number) => void;
+}
+
+// 窗口化渲染：按固定行数分块，只挂载可视区域附近的块，其余用等高占位
+const LINES_PER_BLOCK = 100;
+const ESTIMATED_LINE_HEIGHT = 24; // 与 leading-6 一致，块被测量前用于估算高度
+const OVERSCAN_PX = 800;
+
+// 行内格式对应的样式，没有可显示的格式时返回空串
+const formatClass = (format: TextFormat) =>
+  [
+    format.bold && 'font-semibold',
+    format.italic && 'italic',
+    format.underline && 'underline',
+    format.strikethrough && 'line-through',
+    format.font && 'font-mono text-[0.9em] bg-gray-100 rounded px-0.5',
+    format.highlight && 'bg-yellow-100',
+    format.link && 'text-blue-700 underline decoration-blue-300',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+const TOKEN_CLASSES: Record<CodeTokenKind, string> = {
+  comment: 'text-gray-500 italic',
+  string: 'text-emerald-700',
+  keyword: 'text-purple-700 font-semibold',
+  number: 'text-orange-600',
+  tag: 'text-blue-700',
+};
+
+const HEADING_CLASSES = ['text-2xl font-bold', 'text-xl font-bold', 'text-lg font-semibold'];
+
+interface LineRun {
+  start: number;
+  end: number;
+  className: string;
+  title?: string;
+}
+
+export const DocumentViewer = forwardRef<DocumentViewerHandle, DocumentViewerProps>(function DocumentViewer({
   title,
   content,
   differences,
   onDifferenceClick,
   selectedId,
-}: DocumentViewerProps) {
+  highlightStyle = 'box',
+  syncScroll,
+  onSyncScrollChange,
+  onTopLineChange,
+  markup,
+  code,
+}, ref) {
+  const scrollRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const linesRef = useRef<HTMLDivElement>(null);
   const [scale, setScale] = useState(1);
 
   const lines = useMemo(() => content.split('\n'), [content]);
+  const blockCount = Math.ceil(lines.length / LINES_PER_BLOCK);
+
+  const blockHeightsRef = useRef(new Map<number, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [visibleBlocks, setVisibleBlocks] = useState<[number, number]>([0, 0]);
+  // 选中的差异所在块即使不在可视区域也保持挂载，便于滚动定位
+  const [pinnedBlock, setPinnedBlock] = useState<number | null>(null);
+  const pendingScrollIdRef = useRef<number | null>(null);
+  // 由 scrollToLine 触发的滚动不再向外报告，避免两侧互相驱动
+  const programmaticScrollRef = useRef(false);
 
   const segmentsByLine = useMemo(() => {
     const map = new Map<number, DifferenceSegment[]>();
@@ -35,25 +116,448 @@ export function DocumentViewer({
     return map;
   }, [differences]);
 
+  const rendered = markup && markup.text === content ? markup : undefined;
+
+  // 带样式的区间（文档内偏移）：Markdown / HTML 的行内格式，或源代码的语法高亮
+  const styledRuns = useMemo((): LineRun[] => {
+    if (rendered) {
+      return rendered.formats
+        .map((run) => ({
+          start: run.start,
+          end: run.end,
+          className: formatClass(run.format),
+          title: run.format.link ?? undefined,
+        }))
+        .filter((run) => run.className);
+    }
+    return (code?.tokens ?? []).map((token) => ({
+      start: token.start,
+      end: token.end,
+      className: TOKEN_CLASSES[token.kind],
+    }));
+  }, [rendered, code]);
+
+  // 样式区间按行拆分，列号相对行首
+  const runsByLine = useMemo(() => {
+    const map = new Map<number, LineRun[]>();
+    if (styledRuns.length === 0) return map;
+    const starts: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+      starts.push(offset);
+      offset += line.length + 1;
+    }
+    let line = 0;
+    for (const run of styledRuns) {
+      while (line + 1 < starts.length && starts[line + 1] <= run.start) line++;
+      for (let l = line; l < starts.length && starts[l] < run.end; l++) {
+        const start = Math.max(run.start, starts[l]) - starts[l];
+        const end = Math.min(run.end, starts[l] + lines[l].length) - starts[l];
+        if (end <= start) continue;
+        if (!map.has(l)) map.set(l, []);
+        map.get(l)!.push({ start, end, className: run.className, title: run.title });
+      }
+    }
+    return map;
+  }, [styledRuns, lines]);
+
+  const getBlockHeight = useCallback(
+    (block: number) => {
+      const measured = blockHeightsRef.current.get(block);
+      if (measured !== undefined) return measured;
+      const lineCount = Math.min(LINES_PER_BLOCK, lines.length - block * LINES_PER_BLOCK);
+      return lineCount * ESTIMATED_LINE_HEIGHT;
+    },
+    [lines],
+  );
+
+  // 根据滚动位置计算需要挂载的块（坐标需除以缩放比例换算回布局尺寸）
+  const updateVisibleBlocks = useCallback(() => {
+    const scroller = scrollRef.current;
+    const wrapper = linesRef.current;
+    if (!scroller || !wrapper) return;
+
+    const offset = wrapper.getBoundingClientRect().top - scroller.getBoundingClientRect().top;
+    const top = (-offset - OVERSCAN_PX) / scale;
+    const bottom = (-offset + scroller.clientHeight + OVERSCAN_PX) / scale;
+
+    let first = -1;
+    let last = -1;
+    let y = 0;
+    for (let block = 0; block < blockCount; block++) {
+      const height = getBlockHeight(block);
+      if (y + height >= top && y <= bottom) {
+        if (first === -1) first = block;
+        last = block;
+      }
+      if (y > bottom) break;
+      y += height;
+    }
+    if (first === -1) {
+      first = last = Math.max(0, blockCount - 1);
+    }
+
+    setVisibleBlocks((prev) => (prev[0] === first && prev[1] === last ? prev : [first, last]));
+  }, [blockCount, getBlockHeight, scale]);
+
+  const getBlockTop = useCallback(
+    (block: number) => {
+      let y = 0;
+      for (let b = 0; b < block; b++) y += getBlockHeight(b);
+      return y;
+    },
+    [getBlockHeight],
+  );
+
+  // 行顶部在行容器内的布局坐标：已挂载的块直接读取 DOM，否则在块内均匀估算
+  const getLineTop = useCallback(
+    (line: number) => {
+      const block = Math.floor(line / LINES_PER_BLOCK);
+      const start = block * LINES_PER_BLOCK;
+      const wrapper = linesRef.current;
+      const blockEl = wrapper?.querySelector<HTMLElement>(`[data-block="${block}"]`);
+      const row = blockEl?.children[line - start] as HTMLElement | undefined;
+      if (wrapper && row) return row.offsetTop - wrapper.offsetTop;
+
+      const count = Math.min(LINES_PER_BLOCK, lines.length - start);
+      return getBlockTop(block) + ((line - start) * getBlockHeight(block)) / count;
+    },
+    [getBlockHeight, getBlockTop, lines],
+  );
+
+  const getLineHeight = useCallback(
+    (line: number) => {
+      if (line + 1 < lines.length) return getLineTop(line + 1) - getLineTop(line);
+      const block = Math.floor(line / LINES_PER_BLOCK);
+      return getBlockTop(block) + getBlockHeight(block) - getLineTop(line);
+    },
+    [getBlockHeight, getBlockTop, getLineTop, lines],
+  );
+
+  // 视口顶部在行容器中的布局坐标（可视坐标除以缩放比例）
+  const getViewportTop = useCallback(() => {
+    const scroller = scrollRef.current;
+    const wrapper = linesRef.current;
+    if (!scroller || !wrapper) return 0;
+    const offset = wrapper.getBoundingClientRect().top - scroller.getBoundingClientRect().top;
+    return -offset / scale;
+  }, [scale]);
+
+  const getTopLine = useCallback(() => {
+    const y = getViewportTop();
+    let lo = 0;
+    let hi = lines.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (getLineTop(mid) <= y) lo = mid;
+      else hi = mid - 1;
+    }
+    const height = getLineHeight(lo);
+    const fraction = height > 0 ? (y - getLineTop(lo)) / height : 0;
+    return lo + Math.min(1, Math.max(0, fraction));
+  }, [getLineHeight, getLineTop, getViewportTop, lines]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      scrollToLine: (target: number) => {
+        const scroller = scrollRef.current;
+        if (!scroller) return;
+        const clamped = Math.min(Math.max(0, target), lines.length - 1);
+        const line = Math.floor(clamped);
+        const y = getLineTop(line) + (clamped - line) * getLineHeight(line);
+        const next = scroller.scrollTop + (y - getViewportTop()) * scale;
+        if (Math.abs(next - scroller.scrollTop) < 1) return;
+        programmaticScrollRef.current = true;
+        scroller.scrollTop = next;
+      },
+    }),
+    [getLineHeight, getLineTop, getViewportTop, lines, scale],
+  );
+
+  const handleScroll = () => {
+    updateVisibleBlocks();
+    if (programmaticScrollRef.current) {
+      programmaticScrollRef.current = false;
+      return;
+    }
+    if (syncScroll) onTopLineChange?.(getTopLine());
+  };
+
   useEffect(() => {
-    if (!selectedId || !containerRef.current) return;
-    const el = containerRef.current.querySelector<HTMLElement>(
-      `[data-diff-id="${selectedId}"]`,
-    );
-    el?.scrollIntoView({ block: 'center', inline: 'nearest' });
-  }, [selectedId]);
+    blockHeightsRef.current.clear();
+    setPinnedBlock(null);
+  }, [lines]);
 
-  const getHighlightClass = (type: DifferenceSegment['type']) => {
+  useLayoutEffect(() => {
+    updateVisibleBlocks();
+  }, [updateVisibleBlocks, measureVersion]);
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => updateVisibleBlocks());
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, [updateVisibleBlocks]);
+
+  // 测量已挂载块的真实高度（ResizeObserver 给出的是未缩放的布局尺寸）
+  const blockObserverRef = useRef<ResizeObserver | null>(null);
+  const observeBlock = useCallback((el: HTMLDivElement | null) => {
+    if (!el || typeof ResizeObserver === 'undefined') return;
+    if (!blockObserverRef.current) {
+      blockObserverRef.current = new ResizeObserver((entries) => {
+        let changed = false;
+        for (const entry of entries) {
+          // 块被卸载时也会触发一次尺寸为 0 的回调，需忽略
+          if (!entry.target.isConnected) {
+            blockObserverRef.current?.unobserve(entry.target);
+            continue;
+          }
+          const block = Number((entry.target as HTMLElement).dataset.block);
+          const height = entry.contentRect.height;
+          if (blockHeightsRef.current.get(block) !== height) {
+            blockHeightsRef.current.set(block, height);
+            changed = true;
+          }
+        }
+        if (changed) setMeasureVersion((v) => v + 1);
+      });
+    }
+    blockObserverRef.current.observe(el);
+  }, []);
+
+  useEffect(() => () => blockObserverRef.current?.disconnect(), []);
+
+  // 选中差异时先挂载其所在块，渲染完成后再滚动定位
+  useEffect(() => {
+    if (!selectedId) return;
+    const seg = differences.find((d) => d.id === selectedId);
+    if (!seg) return;
+    pendingScrollIdRef.current = selectedId;
+    setPinnedBlock(Math.floor(seg.line / LINES_PER_BLOCK));
+  }, [selectedId, differences]);
+
+  useEffect(() => {
+    const id = pendingScrollIdRef.current;
+    if (!id || !containerRef.current) return;
+    const el = containerRef.current.querySelector<HTMLElement>(`[data-diff-id="${id}"]`);
+    if (!el) return;
+    pendingScrollIdRef.current = null;
+    // 两侧各自定位到选中的差异，这次滚动不触发同步
+    programmaticScrollRef.current = true;
+    el.scrollIntoView({ block: 'center', inline: 'nearest' });
+  });
+
+  const getHighlightClass = (seg: DifferenceSegment) => {
+    const { type } = seg;
+    // 移动：两侧同一 id 的块同时加深，块内改动另加黄色底
+    if (type === 'moved') {
+      const edited = seg.edited ? 'bg-yellow-300/60' : seg.id === selectedId ? 'bg-blue-500/25' : 'bg-blue-500/10';
+      if (highlightStyle === 'redline') {
+        const mark = seg.move === 'from' ? 'line-through' : 'underline decoration-double';
+        return `${mark} decoration-blue-600 decoration-2 text-blue-700 ${edited}`;
+      }
+      return `outline outline-1 outline-blue-600 rounded-sm ${edited}`;
+    }
+    // 格式变化：文字未变，用紫色虚线框 / 波浪线标出
+    if (type === 'format') {
+      const selected = seg.id === selectedId ? 'bg-purple-500/20' : 'bg-purple-500/5';
+      if (highlightStyle === 'redline') return `underline decoration-wavy decoration-purple-600 ${selected}`;
+      return `outline outline-1 outline-dashed outline-purple-600 rounded-sm ${selected}`;
+    }
+    if (highlightStyle === 'redline') {
+      if (type === 'addition') return 'underline decoration-green-600 decoration-2 text-green-700 bg-green-50';
+      return 'line-through decoration-red-600 decoration-2 text-red-700 bg-red-50';
+    }
     // “框出差异字符”：使用 outline + 轻底色
     if (type === 'addition') return 'outline outline-1 outline-green-600 bg-green-500/10 rounded-sm';
+    if (type === 'modification') return 'outline outline-1 outline-yellow-600 bg-yellow-400/20 rounded-sm';
     return 'outline outline-1 outline-red-600 bg-red-500/10 rounded-sm';
   };
 
+  // 行内一段文字，按格式拆成带样式的片段
+  const renderText = (lineIdx: number, from: number, to: number) => {
+    const text = lines[lineIdx];
+    const runs = runsByLine.get(lineIdx);
+    if (!runs) return text.slice(from, to);
+    const nodes: React.ReactNode[] = [];
+    let pos = from;
+    for (const run of runs) {
+      if (run.end <= pos || run.start >= to) continue;
+      const start = Math.max(run.start, pos);
+      const end = Math.min(run.end, to);
+      if (start > pos) nodes.push(text.slice(pos, start));
+      nodes.push(
+        <span key={start} className={run.className} title={run.title}>
+          {text.slice(start, end)}
+        </span>,
+      );
+      pos = end;
+    }
+    if (pos < to) nodes.push(text.slice(pos, to));
+    return nodes;
+  };
+
+  // 块类型决定行的样式：标题字号、列表符号与缩进、代码块、引用、表格单元格
+  const renderBlockLine = (lineIdx: number, contentNode: React.ReactNode) => {
+    if (code) {
+      return (
+        <div className="flex font-mono text-xs leading-6">
+          <span className="w-10 shrink-0 pr-3 text-right text-gray-400 select-none">{lineIdx + 1}</span>
+          <div className="min-w-0 whitespace-pre-wrap break-all">{contentNode}</div>
+        </div>
+      );
+    }
+    const ref = rendered?.lineRefs[lineIdx];
+    const block = ref === undefined ? undefined : rendered?.blocks[ref];
+    if (!rendered || !block) {
+      return <div className="whitespace-pre-wrap break-words">{contentNode}</div>;
+    }
+    const first = lineIdx === 0 || rendered.lineRefs[lineIdx - 1] !== ref;
+    const last = rendered.lineRefs[lineIdx + 1] !== ref;
+    switch (block.kind) {
+      case 'heading':
+        return (
+          <div className={`whitespace-pre-wrap break-words ${HEADING_CLASSES[(block.level ?? 1) - 1] ?? 'font-semibold'} ${first ? 'pt-2' : ''}`}>
+            {contentNode}
+          </div>
+        );
+      case 'list-item': {
+        const indent = ((block.level ?? 1) - 1) * 1.5;
+        return (
+          <div className="relative whitespace-pre-wrap break-words" style={{ paddingLeft: `${indent + 1.5}rem` }}>
+            {first && (
+              <span className="absolute text-gray-500 select-none" style={{ left: `${indent}rem` }}>
+                {block.marker}
+              </span>
+            )}
+            {contentNode}
+          </div>
+        );
+      }
+      case 'code':
+        return (
+          <div className={`whitespace-pre-wrap break-all font-mono text-xs leading-6 bg-gray-100 px-3 ${first ? 'rounded-t' : ''} ${last ? 'rounded-b' : ''}`}>
+            {contentNode}
+          </div>
+        );
+      case 'quote':
+        return <div className="whitespace-pre-wrap break-words border-l-4 border-gray-300 pl-3 text-gray-600">{contentNode}</div>;
+      case 'table-cell':
+        return <div className="whitespace-pre-wrap break-words border-l-2 border-gray-200 pl-3">{contentNode}</div>;
+      default:
+        return <div className="whitespace-pre-wrap break-words">{contentNode}</div>;
+    }
+  };
+
+  const renderLine = (lineIdx: number) => {
+    const lineText = lines[lineIdx];
+    const segs = segmentsByLine.get(lineIdx) ?? [];
+    const labelId = segs[0]?.id;
+
+    // 构建该行的富文本：普通片段 + 高亮片段
+    const pieces: React.ReactNode[] = [];
+    let cursor = 0;
+    segs.forEach((seg) => {
+      const start = Math.max(0, Math.min(seg.startCol, lineText.length));
+      const end = Math.max(start, Math.min(seg.endCol, lineText.length));
+      if (start > cursor) {
+        pieces.push(
+          <span key={`t-${lineIdx}-${cursor}`}>{renderText(lineIdx, cursor, start)}</span>,
+        );
+      }
+      if (end > start) {
+        pieces.push(
+          <span
+            key={`h-${seg.id}-${lineIdx}-${start}`}
+            data-diff-id={seg.id}
+            className={getHighlightClass(seg)}
+            onClick={() => onDifferenceClick(seg.id)}
+          >
+            {renderText(lineIdx, start, end)}
+          </span>,
+        );
+      }
+      cursor = end;
+    });
+    if (cursor < lineText.length) {
+      pieces.push(
+        <span key={`t-${lineIdx}-${cursor}-tail`}>{renderText(lineIdx, cursor, lineText.length)}</span>,
+      );
+    }
+
+    // 空行也占位，避免高度塌陷
+    const contentNode = pieces.length > 0 ? pieces : '\u00A0';
+
+    return (
+      <div
+        key={`line-${lineIdx}`}
+        className="grid grid-cols-[2.75rem_1fr] gap-2"
+      >
+        <div className="pt-[2px]">
+          {labelId ? (
+            <button
+              type="button"
+              className="bg-white/70 text-red-600 text-xs px-2 py-1 rounded border border-red-200 shadow-sm backdrop-blur-sm"
+              onClick={() => onDifferenceClick(labelId)}
+              data-diff-id={labelId}
+              title={`#${labelId}`}
+            >
+              #{labelId}
+            </button>
+          ) : (
+            <span className="text-transparent select-none">#</span>
+          )}
+        </div>
+        {renderBlockLine(lineIdx, contentNode)}
+      </div>
+    );
+  };
+
+  // 连续未挂载的块合并为一个占位元素
+  const blocks: React.ReactNode[] = [];
+  let spacerHeight = 0;
+  for (let block = 0; block < blockCount; block++) {
+    const mounted =
+      (block >= visibleBlocks[0] && block <= visibleBlocks[1]) || block === pinnedBlock;
+    if (!mounted) {
+      spacerHeight += getBlockHeight(block);
+      continue;
+    }
+    if (spacerHeight > 0) {
+      blocks.push(<div key={`spacer-${block}`} style={{ height: spacerHeight }} />);
+      spacerHeight = 0;
+    }
+    const start = block * LINES_PER_BLOCK;
+    const end = Math.min(lines.length, start + LINES_PER_BLOCK);
+    const rows: React.ReactNode[] = [];
+    for (let lineIdx = start; lineIdx < end; lineIdx++) rows.push(renderLine(lineIdx));
+    blocks.push(
+      <div key={`block-${block}`} data-block={block} ref={observeBlock}>
+        {rows}
+      </div>,
+    );
+  }
+  if (spacerHeight > 0) {
+    blocks.push(<div key="spacer-end" style={{ height: spacerHeight }} />);
+  }
+
   return (
     <Card className="flex flex-col h-full">
       <div className="p-4 border-b flex items-center justify-between">
         <h3 className="font-medium">{title}</h3>
         <div className="flex gap-2">
+          {onSyncScrollChange && (
+            <button
+              type="button"
+              onClick={() => onSyncScrollChange(!syncScroll)}
+              className={`px-2 py-1 text-sm border rounded ${syncScroll ? 'bg-blue-50 text-blue-600 border-blue-200' : 'hover:bg-gray-50'}`}
+              title={syncScroll ? '关闭同步滚动' : '开启同步滚动'}
+            >
+              {syncScroll ? <Link2 className="h-4 w-4" /> : <Link2Off className="h-4 w-4" />}
+            </button>
+          )}
           <button
             onClick={() => setScale(s => Math.max(0.5, s - 0.1))}
             className="px-3 py-1 text-sm border rounded hover:bg-gray-50"
@@ -69,79 +573,22 @@ export function DocumentViewer({
           </button>
         </div>
       </div>
-      
-      <div className="flex-1 overflow-auto p-4 bg-gray-50 relative">
+
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-auto p-4 bg-gray-50 relative"
+        onScroll={handleScroll}
+      >
         <div
           ref={containerRef}
           className="bg-white p-8 shadow-sm relative mx-auto max-w-4xl"
           style={{ transform: `scale(${scale})`, transformOrigin: 'top center' }}
         >
-          <div className="text-sm leading-6 text-gray-900">
-            {lines.map((lineText, lineIdx) => {
-              const segs = segmentsByLine.get(lineIdx) ?? [];
-              const labelId = segs[0]?.id;
-
-              // 构建该行的富文本：普通片段 + 高亮片段
-              const pieces: React.ReactNode[] = [];
-              let cursor = 0;
-              segs.forEach((seg) => {
-                const start = Math.max(0, Math.min(seg.startCol, lineText.length));
-                const end = Math.max(start, Math.min(seg.endCol, lineText.length));
-                if (start > cursor) {
-                  pieces.push(
-                    <span key={`t-${lineIdx}-${cursor}`}>{lineText.slice(cursor, start)}</span>,
-                  );
-                }
-                if (end > start) {
-                  pieces.push(
-                    <span
-                      key={`h-${seg.id}-${lineIdx}-${start}`}
-                      data-diff-id={seg.id}
-                      className={getHighlightClass(seg.type)}
-                      onClick={() => onDifferenceClick(seg.id)}
-                    >
-                      {lineText.slice(start, end)}
-                    </span>,
-                  );
-                }
-                cursor = end;
-              });
-              if (cursor < lineText.length) {
-                pieces.push(<span key={`t-${lineIdx}-${cursor}-tail`}>{lineText.slice(cursor)}</span>);
-              }
-
-              // 空行也占位，避免高度塌陷
-              const contentNode = pieces.length > 0 ? pieces : '\u00A0';
-
-              return (
-                <div
-                  key={`line-${lineIdx}`}
-                  className="grid grid-cols-[2.75rem_1fr] gap-2"
-                >
-                  <div className="pt-[2px]">
-                    {labelId ? (
-                      <button
-                        type="button"
-                        className="bg-white/70 text-red-600 text-xs px-2 py-1 rounded border border-red-200 shadow-sm backdrop-blur-sm"
-                        onClick={() => onDifferenceClick(labelId)}
-                        data-diff-id={labelId}
-                        title={`#${labelId}`}
-                      >
-                        #{labelId}
-                      </button>
-                    ) : (
-                      <span className="text-transparent select-none">#</span>
-                    )}
-                  </div>
-                  <div className="whitespace-pre-wrap break-words">
-                    {contentNode}
-                  </div>
-                </div>
-              );
-            })}
+          <div ref={linesRef} className="text-sm leading-6 text-gray-900">
+            {blocks}
           </div>
         </div>
       </div>
     </Card>
   );
-}
\ No newline at end of file
+});
@@ -1,17 +1,91 @@
-import { useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Upload, FileText, X } from 'lucide-react';
 import { Button } from '@/app/components/ui/button';
 import { Card } from '@/app/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/app/components/ui/select';
+import { fileExtension, SUPPORTED_EXTENSIONS, TEXT_EXTENSIONS } from '@/app/lib/read-document';
+import {
+  decodeText,
+  detectEncoding,
+  encodingLabel,
+  TEXT_ENCODINGS,
+  type DetectedEncoding,
+  type TextEncoding,
+} from '@/app/lib/text-encoding';
 
 interface FileUploaderProps {
   label: string;
   file: File | null;
   onFileSelect: (file: File | null) => void;
   accept?: string;
+  // 提示文字中列出的格式
+  formats?: string;
 }
 
-export function FileUploader({ label, file, onFileSelect, accept = '.txt,.pdf,.doc,.docx' }: FileUploaderProps) {
+const DEFAULT_ACCEPT = SUPPORTED_EXTENSIONS.map((ext) => `.${ext}`).join(',');
+
+// 预览只解码文件开头的一段
+const PREVIEW_BYTES = 4096;
+const PREVIEW_CHARS = 300;
+
+interface TextSource {
+  file: File;
+  data: ArrayBuffer;
+  detected: DetectedEncoding;
+}
+
+export function FileUploader({
+  label,
+  file,
+  onFileSelect,
+  accept = DEFAULT_ACCEPT,
+  formats = 'TXT, MD, HTML, PDF, DOC, DOCX 及源代码文件',
+}: FileUploaderProps) {
   const inputRef = useRef<HTMLInputElement>(null);
+  // 纯文本文件的原始内容与检测结果；手动指定编码时把文件转成 UTF-8 再交给后续流程
+  const [textSource, setTextSource] = useState<TextSource | null>(null);
+  const [encoding, setEncoding] = useState<TextEncoding | 'auto'>('auto');
+  const transcodedRef = useRef<File | null>(null);
+
+  useEffect(() => {
+    if (file && (file === textSource?.file || file === transcodedRef.current)) return;
+    setTextSource(null);
+    setEncoding('auto');
+    transcodedRef.current = null;
+    if (!file || !TEXT_EXTENSIONS.includes(fileExtension(file.name))) return;
+
+    let cancelled = false;
+    file.arrayBuffer().then((data) => {
+      if (!cancelled) setTextSource({ file, data, detected: detectEncoding(data) });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, textSource]);
+
+  const preview = useMemo(() => {
+    if (!textSource) return '';
+    const used = encoding === 'auto' ? textSource.detected.encoding : encoding;
+    return decodeText(textSource.data.slice(0, PREVIEW_BYTES), used).text.slice(0, PREVIEW_CHARS);
+  }, [textSource, encoding]);
+
+  const handleEncodingChange = (value: string) => {
+    if (!textSource) return;
+    const next = value as TextEncoding | 'auto';
+    setEncoding(next);
+    if (next === 'auto') {
+      transcodedRef.current = null;
+      onFileSelect(textSource.file);
+      return;
+    }
+    const { text } = decodeText(textSource.data, next);
+    const transcoded = new File([text], textSource.file.name, {
+      type: textSource.file.type || 'text/plain',
+      lastModified: textSource.file.lastModified,
+    });
+    transcodedRef.current = transcoded;
+    onFileSelect(transcoded);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0] || null;
@@ -66,7 +140,7 @@ export function FileUploader({ label, file, onFileSelect, accept = '.txt,.pdf,.d
               点击或拖拽文件到此处上传
             </p>
             <p className="text-xs text-gray-400">
-              支持格式: TXT, PDF, DOC, DOCX
+              支持格式: {formats}
             </p>
             <input
               ref={inputRef}
@@ -87,6 +161,34 @@ export function FileUploader({ label, file, onFileSelect, accept = '.txt,.pdf,.d
             </div>
           </div>
         )}
+
+        {file && textSource && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600 shrink-0">文本编码</span>
+              <Select value={encoding} onValueChange={handleEncodingChange}>
+                <SelectTrigger size="sm" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">
+                    自动检测（{encodingLabel(textSource.detected.encoding)}
+                    {textSource.detected.source === 'bom' && '，含 BOM'}）
+                  </SelectItem>
+                  {TEXT_ENCODINGS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {/* 预览解码结果，出现乱码时可手动改选编码 */}
+            <pre className="max-h-40 overflow-auto p-3 text-xs text-gray-700 bg-gray-50 border rounded whitespace-pre-wrap break-all">
+              {preview || <span className="text-gray-400 italic">（空文件）</span>}
+            </pre>
+          </div>
+        )}
       </div>
     </Card>
   );
@@ -0,0 +1,154 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
+import { Loader2 } from 'lucide-react';
+import { Card } from '@/app/components/ui/card';
+import { pdfWorkerSrc, type PdfBox, type PdfDocumentText } from '@/app/lib/pdf-text';
+import type { DifferenceSegment } from '@/app/lib/compare';
+
+if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerSrc();
+}
+
+interface PdfDocumentViewerProps {
+  title: string;
+  file: File;
+  layout: PdfDocumentText;
+  differences: DifferenceSegment[];
+  onDifferenceClick: (id: number) => void;
+  selectedId?: number;
+}
+
+interface HighlightBox extends PdfBox {
+  id: number;
+  type: DifferenceSegment['type'];
+  edited?: boolean;
+}
+
+// 把同一行内若干字符框合并为一个外接矩形
+const unionBoxes = (boxes: PdfBox[]): PdfBox | null => {
+  if (boxes.length === 0) return null;
+  const left = Math.min(...boxes.map((b) => b.x));
+  const top = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export function PdfDocumentViewer({
+  title,
+  file,
+  layout,
+  differences,
+  onDifferenceClick,
+  selectedId,
+}: PdfDocumentViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scale, setScale] = useState(1);
+
+  const boxesByPage = useMemo(() => {
+    const map = new Map<number, HighlightBox[]>();
+    for (const seg of differences) {
+      const ref = layout.lineRefs[seg.line];
+      if (!ref) continue;
+      const line = layout.pages[ref.page].lines[ref.line];
+      const box = unionBoxes(line.boxes.slice(seg.startCol, seg.endCol));
+      if (!box) continue;
+      if (!map.has(ref.page)) map.set(ref.page, []);
+      map.get(ref.page)!.push({ ...box, id: seg.id, type: seg.type, edited: seg.edited });
+    }
+    return map;
+  }, [differences, layout]);
+
+  useEffect(() => {
+    if (!selectedId || !containerRef.current) return;
+    const el = containerRef.current.querySelector<HTMLElement>(
+      `[data-diff-id="${selectedId}"]`,
+    );
+    el?.scrollIntoView({ block: 'center', inline: 'nearest' });
+  }, [selectedId]);
+
+  const getHighlightClass = (box: HighlightBox, selected: boolean) => {
+    const base = {
+      addition: 'border-green-600 bg-green-500/20',
+      deletion: 'border-red-600 bg-red-500/20',
+      modification: 'border-yellow-600 bg-yellow-400/25',
+      // 移动块内的改动用黄色底区分
+      moved: box.edited ? 'border-blue-600 bg-yellow-400/40' : 'border-blue-600 bg-blue-500/20',
+      format: 'border-dashed border-purple-600 bg-purple-500/15',
+    }[box.type];
+    return `${base} absolute border rounded-sm cursor-pointer ${selected ? 'ring-2 ring-blue-500' : ''}`;
+  };
+
+  return (
+    <Card className="flex flex-col h-full">
+      <div className="p-4 border-b flex items-center justify-between">
+        <h3 className="font-medium">{title}</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setScale(s => Math.max(0.5, s - 0.1))}
+            className="px-3 py-1 text-sm border rounded hover:bg-gray-50"
+          >
+            -
+          </button>
+          <span className="px-3 py-1 text-sm">{Math.round(scale * 100)}%</span>
+          <button
+            onClick={() => setScale(s => Math.min(2, s + 0.1))}
+            className="px-3 py-1 text-sm border rounded hover:bg-gray-50"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 bg-gray-50">
+        <div ref={containerRef}>
+          <Document
+            file={file}
+            loading={
+              <div className="flex items-center justify-center py-12 text-sm text-gray-500">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                加载 PDF...
+              </div>
+            }
+            error={<div className="py-12 text-center text-sm text-red-500">PDF 加载失败</div>}
+          >
+            <div className="space-y-4">
+              {layout.pages.map((page, pageIdx) => (
+                <div
+                  key={page.pageNumber}
+                  className="relative mx-auto bg-white shadow-sm"
+                  style={{ width: page.width * scale, height: page.height * scale }}
+                >
+                  <Page
+                    pageNumber={page.pageNumber}
+                    scale={scale}
+                    renderTextLayer={false}
+                    renderAnnotationLayer={false}
+                  />
+                  {(boxesByPage.get(pageIdx) ?? []).map((box, idx) => (
+                    <div
+                      key={`${box.id}-${idx}`}
+                      data-diff-id={box.id}
+                      title={`#${box.id}`}
+                      className={getHighlightClass(box, box.id === selectedId)}
+                      style={{
+                        left: box.x * scale,
+                        top: box.y * scale,
+                        width: Math.max(box.width * scale, 2),
+                        height: box.height * scale,
+                      }}
+                      onClick={() => onDifferenceClick(box.id)}
+                    />
+                  ))}
+                  <div className="absolute bottom-1 right-2 text-xs text-gray-400 select-none">
+                    第 {page.pageNumber} 页
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Document>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { History, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/app/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/app/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/app/components/ui/alert-dialog';
+import { formatTimestamp } from '@/app/lib/report-export';
+import type { ComparisonSession } from '@/app/lib/session-store';
+
+interface SessionHistoryProps {
+  sessions: ComparisonSession[];
+  activeId?: string;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function SessionHistory({ sessions, activeId, onOpen, onRename, onDelete }: SessionHistoryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<ComparisonSession | null>(null);
+
+  const startRename = (session: ComparisonSession) => {
+    setEditingId(session.id);
+    setDraft(session.name);
+  };
+
+  const commitRename = () => {
+    const name = draft.trim();
+    if (editingId && name) onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="flex items-center gap-2 px-2 py-1 font-semibold">
+          <History className="h-4 w-4" />
+          对比历史
+        </div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>最近的对比</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {sessions.map((session) => (
+                <SidebarMenuItem key={session.id}>
+                  {editingId === session.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton
+                        size="lg"
+                        isActive={session.id === activeId}
+                        onClick={() => onOpen(session.id)}
+                        title={session.name}
+                      >
+                        <div className="flex min-w-0 flex-col">
+                          <span className="truncate">{session.name}</span>
+                          <span className="truncate text-xs text-gray-500">
+                            {formatTimestamp(new Date(session.updatedAt))}
+                            {session.differenceCount !== undefined && ` · ${session.differenceCount} 处差异`}
+                          </span>
+                        </div>
+                      </SidebarMenuButton>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover>
+                            <MoreHorizontal />
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem onSelect={() => startRename(session)}>
+                            <Pencil className="h-4 w-4" />
+                            重命名
+                          </DropdownMenuItem>
+                          <DropdownMenuItem variant="destructive" onSelect={() => setPendingDelete(session)}>
+                            <Trash2 className="h-4 w-4" />
+                            删除
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+            {sessions.length === 0 && (
+              <p className="px-2 py-4 text-xs text-gray-400">开始一次对比后，会话会自动保存在这里</p>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除对比记录？</AlertDialogTitle>
+            <AlertDialogDescription>
+              “{pendingDelete?.name}”的文件、对比结果和审阅记录将从本地删除，无法恢复。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete.id);
+                setPendingDelete(null);
+              }}
+            >
+              删除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+}
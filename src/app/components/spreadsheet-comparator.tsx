@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DiffReport } from './diff-report';
+import { SpreadsheetViewer } from './spreadsheet-viewer';
+import { Label } from '@/app/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/app/components/ui/select';
+import { Switch } from '@/app/components/ui/switch';
+import { isCancelledError, startSpreadsheetJob } from '@/app/lib/compare-job';
+import type { SpreadsheetDocument } from '@/app/lib/spreadsheet';
+import {
+  columnLetter,
+  compareSpreadsheets,
+  DEFAULT_SHEET_COMPARE_OPTIONS,
+  type SheetCompareOptions,
+} from '@/app/lib/spreadsheet-diff';
+
+interface SpreadsheetComparatorProps {
+  fileA: File;
+  fileB: File;
+}
+
+// Select 不接受空字符串作为选项值，用它表示“按行的顺序”
+const BY_POSITION = '__position__';
+
+export function SpreadsheetComparator({ fileA, fileB }: SpreadsheetComparatorProps) {
+  const [docs, setDocs] = useState<[SpreadsheetDocument, SpreadsheetDocument] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [options, setOptions] = useState<SheetCompareOptions>(DEFAULT_SHEET_COMPARE_OPTIONS);
+  const [activeSheet, setActiveSheet] = useState(0);
+  const [changedOnly, setChangedOnly] = useState(false);
+  const [selectedDiffId, setSelectedDiffId] = useState<number | undefined>();
+
+  // 在 worker 中读取两个表格，文件变化或组件卸载时取消
+  useEffect(() => {
+    setDocs(null);
+    setError(null);
+    const job = startSpreadsheetJob([fileA, fileB]);
+    job.promise
+      .then(([docA, docB]) => setDocs([docA, docB]))
+      .catch((err: unknown) => {
+        if (!isCancelledError(err)) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => job.cancel();
+  }, [fileA, fileB]);
+
+  const comparison = useMemo(() => docs && compareSpreadsheets(docs[0], docs[1], options), [docs, options]);
+
+  // 主键列的候选：有表头时为两侧表头名称，否则为列字母
+  const keyChoices = useMemo(() => {
+    if (!docs) return [];
+    const sheets = docs.flatMap((doc) => doc.sheets);
+    if (options.headerRow) {
+      return [...new Set(sheets.flatMap((sheet) => sheet.rows[0] ?? []).filter(Boolean))];
+    }
+    const width = Math.max(0, ...sheets.flatMap((sheet) => sheet.rows.map((row) => row.length)));
+    return Array.from({ length: width }, (_, idx) => columnLetter(idx));
+  }, [docs, options.headerRow]);
+
+  // 差异所在的工作表，点击报告中的差异时切换过去
+  const sheetOfDiff = useMemo(() => {
+    const map = new Map<number, number>();
+    comparison?.sheets.forEach((sheet, idx) => sheet.differences.forEach((diff) => map.set(diff.id, idx)));
+    return map;
+  }, [comparison]);
+
+  const sheet = comparison?.sheets[Math.min(activeSheet, comparison.sheets.length - 1)];
+
+  const handleDifferenceClick = (id: number) => {
+    setSelectedDiffId(id);
+    const sheetIdx = sheetOfDiff.get(id);
+    if (sheetIdx !== undefined) setActiveSheet(sheetIdx);
+  };
+
+  const updateOptions = (next: SheetCompareOptions) => {
+    setOptions(next);
+    setSelectedDiffId(undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">表格对比</h2>
+        <div className="flex flex-wrap items-center gap-4">
+          {!docs && !error && (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              读取中...
+            </div>
+          )}
+          {error && <div className="text-sm text-red-500">对比失败：{error}</div>}
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">匹配行</span>
+            <Select
+              value={options.keyColumn ?? BY_POSITION}
+              onValueChange={(value) => updateOptions({ ...options, keyColumn: value === BY_POSITION ? null : value })}
+            >
+              <SelectTrigger size="sm" className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BY_POSITION}>按行的顺序</SelectItem>
+                {keyChoices.map((key) => (
+                  <SelectItem key={key} value={key}>
+                    按主键：{key}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="sheet-header-row"
+              checked={options.headerRow}
+              // 切换表头后主键的写法（表头名称 / 列字母）不同，改回按顺序匹配
+              onCheckedChange={(checked) => updateOptions({ headerRow: checked, keyColumn: null })}
+            />
+            <Label htmlFor="sheet-header-row" className="font-normal">
+              首行为表头
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="sheet-changed-only" checked={changedOnly} onCheckedChange={setChangedOnly} />
+            <Label htmlFor="sheet-changed-only" className="font-normal">
+              只显示差异行
+            </Label>
+          </div>
+        </div>
+      </div>
+
+      <div className="h-[400px]">
+        <DiffReport
+          differences={comparison?.differences ?? []}
+          onItemClick={handleDifferenceClick}
+          selectedId={selectedDiffId}
+          sideLabels={['表格 A', '表格 B']}
+        />
+      </div>
+
+      {comparison && sheet && (
+        <div className="h-[600px] flex flex-col gap-2">
+          <div className="flex items-center gap-2 flex-wrap">
+            {comparison.sheets.map((item, idx) => (
+              <button
+                key={idx}
+                type="button"
+                className={`px-3 py-1 text-sm rounded border ${
+                  item === sheet ? 'bg-gray-900 border-gray-900 text-white' : 'bg-white hover:bg-gray-50'
+                } ${item.status === 'added' ? 'text-green-700' : item.status === 'removed' ? 'text-red-700 line-through' : ''}`}
+                onClick={() => setActiveSheet(idx)}
+              >
+                {item.name}
+                {item.differences.length > 0 && <span className="ml-1 text-xs opacity-70">{item.differences.length}</span>}
+              </button>
+            ))}
+            {sheet.keyMissing && (
+              <span className="text-sm text-orange-600">
+                该工作表缺少主键列“{options.keyColumn}”，已按行的顺序匹配
+              </span>
+            )}
+          </div>
+          <div className="flex-1 min-h-0">
+            <SpreadsheetViewer
+              sheet={sheet}
+              selectedId={selectedDiffId}
+              onDifferenceClick={handleDifferenceClick}
+              changedOnly={changedOnly}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useRef } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/app/components/ui/table';
+import { columnLetter, type SheetCell, type SheetComparison, type SheetRow } from '@/app/lib/spreadsheet-diff';
+
+interface SpreadsheetViewerProps {
+  sheet: SheetComparison;
+  selectedId?: number;
+  onDifferenceClick: (id: number) => void;
+  // 只显示有差异的行
+  changedOnly?: boolean;
+}
+
+// 行数过多时只渲染前面一部分，可切换为只看差异行
+const MAX_RENDERED_ROWS = 2000;
+
+const ROW_CLASSES: Record<SheetRow['status'], string> = {
+  same: '',
+  changed: '',
+  added: 'bg-green-50',
+  removed: 'bg-red-50 text-red-700',
+};
+
+const CELL_CLASSES: Record<SheetCell['status'], string> = {
+  same: '',
+  changed: 'bg-yellow-100',
+  added: 'bg-green-100',
+  removed: 'bg-red-100 text-red-700',
+};
+
+// 两侧的列字母不同时同时标出，如“C → D”
+const columnLabel = (colA: number | null, colB: number | null) => {
+  const a = colA === null ? null : columnLetter(colA);
+  const b = colB === null ? null : columnLetter(colB);
+  if (a && b && a !== b) return `${a} → ${b}`;
+  return b ?? a ?? '';
+};
+
+export function SpreadsheetViewer({ sheet, selectedId, onDifferenceClick, changedOnly }: SpreadsheetViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const rows = changedOnly ? sheet.rows.filter((row) => row.status !== 'same') : sheet.rows;
+  const visibleRows = rows.slice(0, MAX_RENDERED_ROWS);
+
+  // 选中的差异滚动到可视区域
+  useEffect(() => {
+    if (!selectedId || !containerRef.current) return;
+    const el = containerRef.current.querySelector<HTMLElement>(`[data-diff-id="${selectedId}"]`);
+    el?.scrollIntoView({ block: 'center', inline: 'center' });
+  }, [selectedId, sheet]);
+
+  const selectedOutline = (id?: number) =>
+    id && id === selectedId ? 'outline outline-2 -outline-offset-2 outline-blue-500' : '';
+
+  const renderCell = (row: SheetRow, cell: SheetCell, idx: number) => {
+    // 整行新增或删除时单元格不再单独标色
+    const wholeRow = row.status === 'added' || row.status === 'removed';
+    const className = wholeRow
+      ? row.status === 'removed'
+        ? 'line-through'
+        : ''
+      : `${CELL_CLASSES[cell.status]} ${selectedOutline(cell.diffId)}`;
+    const content =
+      cell.status === 'changed' && !wholeRow ? (
+        <>
+          <span className="line-through text-red-600 mr-1">{cell.a}</span>
+          <span className="text-green-700">{cell.b}</span>
+        </>
+      ) : (
+        cell.b || cell.a
+      );
+    return (
+      <TableCell
+        key={idx}
+        data-diff-id={cell.diffId}
+        className={`border-r max-w-64 truncate ${className} ${cell.diffId ? 'cursor-pointer' : ''}`}
+        title={cell.status === 'changed' ? `${cell.a} → ${cell.b}` : cell.b || cell.a}
+        onClick={cell.diffId ? () => onDifferenceClick(cell.diffId!) : undefined}
+      >
+        {content}
+      </TableCell>
+    );
+  };
+
+  // 表格容器自身滚动，表头才能固定在顶部
+  return (
+    <div
+      ref={containerRef}
+      className="h-full flex flex-col bg-white border rounded-lg overflow-hidden [&>[data-slot=table-container]]:flex-1 [&>[data-slot=table-container]]:min-h-0 [&>[data-slot=table-container]]:overflow-auto"
+    >
+      <Table className="border-collapse">
+        <TableHeader className="sticky top-0 z-10 bg-gray-50">
+          <TableRow>
+            <TableHead className="border-r text-xs text-gray-500 w-20">行 A / B</TableHead>
+            {sheet.columns.map((column, idx) => (
+              <TableHead
+                key={idx}
+                className={`border-r ${
+                  column.status === 'added'
+                    ? 'bg-green-100'
+                    : column.status === 'removed'
+                      ? 'bg-red-100 text-red-700 line-through'
+                      : ''
+                }`}
+              >
+                <div className="text-xs font-normal text-gray-400">{columnLabel(column.colA, column.colB)}</div>
+                {column.header}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visibleRows.map((row, rowIdx) => (
+            <TableRow
+              key={rowIdx}
+              data-diff-id={row.diffId}
+              className={`${ROW_CLASSES[row.status]} ${selectedOutline(row.diffId ?? sheet.diffId)} ${
+                row.diffId ? 'cursor-pointer' : ''
+              }`}
+              onClick={row.diffId ? () => onDifferenceClick(row.diffId!) : undefined}
+            >
+              <TableCell className="border-r text-xs text-gray-500">
+                {row.rowA ?? '–'} / {row.rowB ?? '–'}
+              </TableCell>
+              {row.cells.map((cell, idx) => renderCell(row, cell, idx))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {rows.length > MAX_RENDERED_ROWS && (
+        <p className="p-3 text-xs text-gray-500">
+          共 {rows.length} 行，仅显示前 {MAX_RENDERED_ROWS} 行{changedOnly ? '' : '；可只显示差异行'}
+        </p>
+      )}
+      {rows.length === 0 && (
+        <p className="p-6 text-center text-sm text-gray-400">{changedOnly ? '该工作表没有差异' : '工作表为空'}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import { Card } from '@/app/components/ui/card';
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+import { DiffReport } from './diff-report';
+import { isCancelledError, startParseJob } from '@/app/lib/compare-job';
+import {
+  buildThreeWayMerged,
+  compareThreeWay,
+  ORIGIN_LABELS,
+  RESOLUTION_LABELS,
+  type ChangeOrigin,
+  type ConflictResolution,
+  type ThreeWayResult,
+} from '@/app/lib/three-way';
+import { baseName, downloadBlob } from '@/app/lib/download';
+import { textToDocx } from '@/app/lib/docx-export';
+
+interface ThreeWayComparatorProps {
+  base: File;
+  mine: File;
+  theirs: File;
+}
+
+const ORIGIN_STYLES: Record<Exclude<ChangeOrigin, 'conflict'>, string> = {
+  mine: 'border-blue-400 bg-blue-50',
+  theirs: 'border-purple-400 bg-purple-50',
+  both: 'border-green-400 bg-green-50',
+};
+
+const RESOLUTIONS = Object.keys(RESOLUTION_LABELS) as ConflictResolution[];
+
+export function ThreeWayComparator({ base, mine, theirs }: ThreeWayComparatorProps) {
+  const [result, setResult] = useState<ThreeWayResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({});
+  const [selectedId, setSelectedId] = useState<number | undefined>();
+  const mergeViewRef = useRef<HTMLDivElement>(null);
+
+  // 在 worker 中解析三个文件，文件变化或组件卸载时取消
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    setProgress(0);
+    setResolutions({});
+    const job = startParseJob([base, mine, theirs], setProgress);
+    job.promise
+      .then(([docBase, docMine, docTheirs]) => setResult(compareThreeWay(docBase.text, docMine.text, docTheirs.text)))
+      .catch((err: unknown) => {
+        if (!isCancelledError(err)) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => job.cancel();
+  }, [base, mine, theirs]);
+
+  useEffect(() => {
+    if (!selectedId || !mergeViewRef.current) return;
+    mergeViewRef.current
+      .querySelector<HTMLElement>(`[data-diff-id="${selectedId}"]`)
+      ?.scrollIntoView({ block: 'center' });
+  }, [selectedId]);
+
+  const differences = result?.differences ?? [];
+  const conflictCount = differences.filter((d) => d.origin === 'conflict').length;
+  const unresolvedCount = differences.filter((d) => d.origin === 'conflict' && !resolutions[d.id]).length;
+  const countOf = (origin: ChangeOrigin) => differences.filter((d) => d.origin === origin).length;
+
+  const mergedText = useMemo(
+    () => (result ? buildThreeWayMerged(result.regions, resolutions) : ''),
+    [result, resolutions],
+  );
+
+  const mergedFileName = (ext: string) => `${baseName(base.name)}-三方合并.${ext}`;
+
+  const handleDownloadTxt = () => {
+    downloadBlob(new Blob([mergedText], { type: 'text/plain;charset=utf-8' }), mergedFileName('txt'));
+  };
+
+  const handleDownloadDocx = async () => {
+    try {
+      downloadBlob(await textToDocx(mergedText), mergedFileName('docx'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const resolve = (id: number, resolution: ConflictResolution) => {
+    setResolutions((prev) => ({ ...prev, [id]: resolution }));
+  };
+
+  return (
+    <div className="space-y-4 h-full flex flex-col">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">三方合并</h2>
+        <div className="flex items-center gap-4">
+          {!result && !error && (
+            <div className="flex items-center text-sm text-gray-500">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              解析文档... {Math.round(progress * 100)}%
+            </div>
+          )}
+          {error && <div className="text-sm text-red-500">对比失败：{error}</div>}
+          {result && (
+            <div className="text-sm text-gray-500">
+              {ORIGIN_LABELS.mine} {countOf('mine')} 处，{ORIGIN_LABELS.theirs} {countOf('theirs')} 处，
+              {ORIGIN_LABELS.both} {countOf('both')} 处，冲突 {conflictCount} 处
+              {conflictCount > 0 && `（未解决 ${unresolvedCount} 处）`}
+            </div>
+          )}
+          <Button variant="outline" size="sm" disabled={!result} onClick={handleDownloadTxt}>
+            <Download className="h-4 w-4" />
+            下载 TXT
+          </Button>
+          <Button variant="outline" size="sm" disabled={!result} onClick={handleDownloadDocx}>
+            <Download className="h-4 w-4" />
+            下载 DOCX
+          </Button>
+        </div>
+      </div>
+
+      <div className="h-[360px]">
+        <DiffReport
+          differences={differences}
+          onItemClick={setSelectedId}
+          selectedId={selectedId}
+          sideLabels={['我的', '他们的']}
+        />
+      </div>
+
+      <Card className="flex-1 min-h-0 flex flex-col overflow-hidden">
+        <div className="p-4 border-b flex items-center justify-between">
+          <h3 className="font-medium">合并结果</h3>
+          <span className="text-xs text-gray-500">
+            非冲突修改已自动合并；未解决的冲突导出时保留冲突标记
+          </span>
+        </div>
+        <ScrollArea className="flex-1 min-h-0">
+          <div ref={mergeViewRef} className="p-4 text-sm leading-relaxed whitespace-pre-wrap break-words">
+            {result?.regions.map((region, idx) => {
+              if (region.kind === 'stable') {
+                return <span key={`s${idx}`}>{region.text}</span>;
+              }
+
+              const selected = region.id === selectedId;
+              if (region.kind !== 'conflict') {
+                const text = region.kind === 'theirs' ? region.theirs : region.mine;
+                return (
+                  <div
+                    key={region.id}
+                    data-diff-id={region.id}
+                    className={`border-l-4 pl-2 my-1 ${ORIGIN_STYLES[region.kind]} ${selected ? 'ring-2 ring-blue-500' : ''}`}
+                    title={`#${region.id} ${ORIGIN_LABELS[region.kind]}`}
+                    onClick={() => setSelectedId(region.id)}
+                  >
+                    {text || <span className="text-gray-400 italic">（删除）</span>}
+                  </div>
+                );
+              }
+
+              const resolution = resolutions[region.id];
+              return (
+                <div
+                  key={region.id}
+                  data-diff-id={region.id}
+                  className={`my-2 rounded border border-orange-300 bg-orange-50 whitespace-normal ${selected ? 'ring-2 ring-blue-500' : ''}`}
+                  onClick={() => setSelectedId(region.id)}
+                >
+                  <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-orange-200">
+                    <span className="font-medium text-orange-800">冲突 #{region.id}</span>
+                    {resolution && (
+                      <span className="text-xs text-gray-600">已{RESOLUTION_LABELS[resolution]}</span>
+                    )}
+                    <div className="ml-auto flex gap-1">
+                      {RESOLUTIONS.map((option) => (
+                        <button
+                          key={option}
+                          type="button"
+                          className={`px-2 py-0.5 text-xs rounded border ${
+                            resolution === option
+                              ? 'bg-gray-900 border-gray-900 text-white'
+                              : 'border-gray-300 bg-white hover:bg-gray-100'
+                          }`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            resolve(region.id, option);
+                          }}
+                        >
+                          {RESOLUTION_LABELS[option]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 p-3 text-xs">
+                    {(['base', 'mine', 'theirs'] as const).map((side) => (
+                      <div key={side} className="space-y-1">
+                        <div className="font-medium text-gray-500">
+                          {{ base: '基础版本', mine: '我的', theirs: '他们的' }[side]}
+                        </div>
+                        <div className="p-2 rounded border bg-white whitespace-pre-wrap break-words">
+                          {region[side] || <span className="text-gray-400 italic">（无）</span>}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </Card>
+    </div>
+  );
+}
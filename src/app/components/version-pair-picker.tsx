@@ -0,0 +1,85 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/app/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/app/components/ui/select';
+
+export type VersionPair = [number, number];
+
+interface VersionPairPickerProps {
+  versions: File[];
+  pair: VersionPair;
+  onPairChange: (pair: VersionPair) => void;
+  view: 'diff' | 'timeline';
+  onViewChange: (view: 'diff' | 'timeline') => void;
+}
+
+export function VersionPairPicker({ versions, pair, onPairChange, view, onViewChange }: VersionPairPickerProps) {
+  const [from, to] = pair;
+
+  const renderSelect = (value: number, exclude: number, onChange: (value: number) => void) => (
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger size="sm" className="w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((file, idx) => (
+          <SelectItem key={idx} value={String(idx)} disabled={idx === exclude}>
+            v{idx + 1} · {file.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex rounded-md border text-sm overflow-hidden">
+        <button
+          type="button"
+          className={`px-3 py-1 ${view === 'diff' ? 'bg-gray-900 text-white' : 'hover:bg-gray-50'}`}
+          onClick={() => onViewChange('diff')}
+        >
+          版本对比
+        </button>
+        <button
+          type="button"
+          className={`px-3 py-1 ${view === 'timeline' ? 'bg-gray-900 text-white' : 'hover:bg-gray-50'}`}
+          onClick={() => onViewChange('timeline')}
+        >
+          时间线
+        </button>
+      </div>
+      {view === 'diff' && (
+        <>
+          {/* 按相邻版本逐对前后切换 */}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={from === 0}
+            onClick={() => onPairChange([from - 1, from])}
+            title="上一对相邻版本"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          {renderSelect(from, to, (value) => onPairChange([value, to]))}
+          <span className="text-sm text-gray-500">→</span>
+          {renderSelect(to, from, (value) => onPairChange([from, value]))}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={from + 2 >= versions.length}
+            onClick={() => onPairChange([from + 1, from + 2])}
+            title="下一对相邻版本"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
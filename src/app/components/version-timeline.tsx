@@ -0,0 +1,165 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Card } from '@/app/components/ui/card';
+import { ScrollArea } from '@/app/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/app/components/ui/select';
+import { isCancelledError, startParseJob } from '@/app/lib/compare-job';
+import { buildVersionTimeline, type ParagraphState } from '@/app/lib/version-timeline';
+
+interface VersionTimelineProps {
+  versions: File[];
+}
+
+const STATE_STYLES: Record<ParagraphState, { className: string; label: string }> = {
+  added: { className: 'bg-green-500', label: '引入' },
+  changed: { className: 'bg-yellow-500', label: '修改' },
+  same: { className: 'bg-gray-300', label: '未变' },
+};
+
+// 已解析的版本全文，按文件缓存；时间线视图重新挂载时不必再次解析
+const parsedTexts = new WeakMap<File, string>();
+
+const cachedTexts = (files: File[]) => {
+  const texts = files.map((file) => parsedTexts.get(file));
+  return texts.every((text): text is string => text !== undefined) ? texts : null;
+};
+
+export function VersionTimeline({ versions }: VersionTimelineProps) {
+  const [texts, setTexts] = useState<string[] | null>(() => cachedTexts(versions));
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [selected, setSelected] = useState(versions.length - 1);
+
+  // 在 worker 中解析尚未缓存的版本，版本变化或组件卸载时取消
+  useEffect(() => {
+    const cached = cachedTexts(versions);
+    setTexts(cached);
+    setError(null);
+    setProgress(0);
+    if (cached) return;
+    const missing = versions.filter((file) => !parsedTexts.has(file));
+    const job = startParseJob(missing, setProgress);
+    job.promise
+      .then((docs) => {
+        docs.forEach((doc, idx) => parsedTexts.set(missing[idx], doc.text));
+        setTexts(cachedTexts(versions));
+      })
+      .catch((err: unknown) => {
+        if (!isCancelledError(err)) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => job.cancel();
+  }, [versions]);
+
+  const timeline = useMemo(() => (texts ? buildVersionTimeline(texts) : null), [texts]);
+  const paragraphs = timeline?.versions[selected] ?? [];
+  const columns = versions.slice(0, selected + 1);
+
+  return (
+    <Card className="h-full flex flex-col overflow-hidden">
+      <div className="p-4 border-b shrink-0 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="font-medium">版本时间线</h3>
+            <p className="text-sm text-gray-500 mt-1">每个段落在哪个版本引入、最后在哪个版本修改</p>
+          </div>
+          <Select value={String(selected)} onValueChange={(value) => setSelected(Number(value))}>
+            <SelectTrigger size="sm" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((file, idx) => (
+                <SelectItem key={idx} value={String(idx)}>
+                  v{idx + 1} · {file.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {timeline && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            {versions.map((file, idx) => {
+              const step = timeline.steps[idx];
+              return (
+                <div key={idx} className="px-2 py-1 border rounded bg-white" title={file.name}>
+                  <span className="font-medium">v{idx + 1}</span>
+                  {idx === 0 ? (
+                    <span className="ml-1 text-gray-500">{timeline.versions[0].length} 段</span>
+                  ) : (
+                    <>
+                      <span className="ml-1 text-green-700">+{step.added}</span>
+                      <span className="ml-1 text-yellow-700">~{step.changed}</span>
+                      <span className="ml-1 text-red-700">-{step.removed}</span>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {error ? (
+        <div className="py-12 text-center text-sm text-red-500">解析失败：{error}</div>
+      ) : !timeline ? (
+        <div className="flex items-center justify-center py-12 text-sm text-gray-500">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          解析 {versions.length} 个版本... {Math.round(progress * 100)}%
+        </div>
+      ) : (
+        <ScrollArea className="flex-1 min-h-0">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">段落</th>
+                {columns.map((_, idx) => (
+                  <th key={idx} className="w-12 px-1 py-2 text-center font-medium">
+                    v{idx + 1}
+                  </th>
+                ))}
+                <th className="w-40 px-4 py-2 text-left font-medium">来历</th>
+              </tr>
+            </thead>
+            <tbody>
+              {paragraphs.map((paragraph, idx) => (
+                <tr key={idx} className="border-t align-top">
+                  <td className="px-4 py-2">
+                    <p className="line-clamp-2" title={paragraph.text}>
+                      {paragraph.text}
+                    </p>
+                  </td>
+                  {columns.map((_, v) => {
+                    const state = paragraph.states[v];
+                    return (
+                      <td key={v} className="px-1 py-2 text-center">
+                        {state && (
+                          <span
+                            className={`inline-block h-2.5 w-2.5 rounded-full ${STATE_STYLES[state].className}`}
+                            title={`v${v + 1} ${STATE_STYLES[state].label}`}
+                          />
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-2 text-xs text-gray-500">
+                    v{paragraph.introducedIn + 1} 引入
+                    {paragraph.lastChangedIn > paragraph.introducedIn &&
+                      `，v${paragraph.lastChangedIn + 1} 最后修改`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {paragraphs.length === 0 && (
+            <div className="py-12 text-center text-sm text-gray-400">该版本没有文本内容</div>
+          )}
+        </ScrollArea>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import type DiffMatchPatch from "diff-match-patch";
+import { diffByGranularity, type DiffGranularity } from "./diff-granularity";
+
+// 按行切分并保留换行符，第 i 项与 text.split("\n") 的第 i 行对应
+const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+// 每行编码为一个 UTF-16 码元，不同的行最多 65535 种
+const MAX_LINES = 65535;
+
+// 与 diff_linesToChars_ 相同的编码方式，两侧共用一张表；行的种类超出上限时返回 null
+const encode = (items: string[][]) => {
+  const hash = new Map<string, number>();
+  const encoded: string[] = [];
+  for (const list of items) {
+    let chars = "";
+    for (const item of list) {
+      let code = hash.get(item);
+      if (code === undefined) {
+        if (hash.size >= MAX_LINES) return null;
+        code = hash.size + 1;
+        hash.set(item, code);
+      }
+      chars += String.fromCharCode(code);
+    }
+    encoded.push(chars);
+  }
+  return encoded;
+};
+
+const stripNewline = (line: string) =>
+  line.endsWith("\n") ? line.slice(0, -1) : line;
+
+/**
+ * 按块对比：每行是一个块（段落、标题、列表项或单元格），kindsA/kindsB 为各行的块类型。
+ * 先以整行为单位比较找出未变的块，被替换的区间内只在同类块之间按顺序配对，
+ * 再在块内按粒度比较；差异因此不会跨越块的边界。
+ */
+export const diffByBlocks = (
+  dmp: DiffMatchPatch,
+  textA: string,
+  kindsA: string[],
+  textB: string,
+  kindsB: string[],
+  granularity: DiffGranularity,
+): DiffMatchPatch.Diff[] => {
+  const linesA = splitLines(textA);
+  const linesB = splitLines(textB);
+  const encoded = encode([linesA, linesB]);
+  // 行数过多无法逐行编码时，不再区分块，整体按粒度比较
+  if (!encoded) return diffByGranularity(dmp, textA, textB, granularity);
+  const [charsA, charsB] = encoded;
+  const lineDiffs = dmp.diff_main(charsA, charsB, false);
+
+  const result: DiffMatchPatch.Diff[] = [];
+  const push = (op: number, text: string) => {
+    if (!text) return;
+    const last = result[result.length - 1];
+    if (last && last[0] === op) last[1] += text;
+    else result.push([op, text]);
+  };
+
+  // 一对同类块：块内按粒度比较，换行单独处理（末行可能没有换行）
+  const pushPair = (lineA: string, lineB: string) => {
+    const contentA = stripNewline(lineA);
+    const contentB = stripNewline(lineB);
+    if (contentA === contentB) push(0, contentA);
+    else {
+      diffByGranularity(dmp, contentA, contentB, granularity).forEach(
+        ([op, text]) => push(op, text),
+      );
+    }
+    const newlineA = lineA.endsWith("\n");
+    const newlineB = lineB.endsWith("\n");
+    if (newlineA && newlineB) push(0, "\n");
+    else if (newlineA) push(-1, "\n");
+    else if (newlineB) push(1, "\n");
+  };
+
+  let posA = 0;
+  let posB = 0;
+  for (let i = 0; i < lineDiffs.length; i++) {
+    if (lineDiffs[i][0] === 0) {
+      const count = lineDiffs[i][1].length;
+      push(0, linesA.slice(posA, posA + count).join(""));
+      posA += count;
+      posB += count;
+      continue;
+    }
+
+    let countA = 0;
+    let countB = 0;
+    while (i < lineDiffs.length && lineDiffs[i][0] !== 0) {
+      if (lineDiffs[i][0] === -1) countA += lineDiffs[i][1].length;
+      else countB += lineDiffs[i][1].length;
+      i++;
+    }
+    i--;
+
+    // 按块类型序列对齐被替换的区间（块类型只有少数几种，不会超出上限）
+    const [kindCharsA, kindCharsB] = encode([
+      kindsA.slice(posA, posA + countA),
+      kindsB.slice(posB, posB + countB),
+    ])!;
+    const kindDiffs = dmp.diff_main(kindCharsA, kindCharsB, false);
+    for (const [op, chars] of kindDiffs) {
+      const count = chars.length;
+      if (op === 0) {
+        for (let k = 0; k < count; k++) {
+          pushPair(linesA[posA + k], linesB[posB + k]);
+        }
+      } else if (op === -1) {
+        push(-1, linesA.slice(posA, posA + count).join(""));
+      } else {
+        push(1, linesB.slice(posB, posB + count).join(""));
+      }
+      if (op !== 1) posA += count;
+      if (op !== -1) posB += count;
+    }
+  }
+
+  return result;
+};
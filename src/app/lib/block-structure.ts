@@ -0,0 +1,145 @@
+import type { FormatRun } from "./text-format";
+
+const PATH_SEPARATOR = " › ";
+const SECTION_UNITS = ["章", "节", "小节"];
+
+export const joinPath = (...parts: string[]) =>
+  parts.filter(Boolean).join(PATH_SEPARATOR);
+
+// 所在章节的计数与其中各类块的编号，遇到同级或更高级标题时重置
+interface Section {
+  label: string;
+  paragraphs: number;
+  lists: number;
+  tables: number;
+  codeBlocks: number;
+  quotes: number;
+}
+
+const newSection = (label: string): Section => ({
+  label,
+  paragraphs: 0,
+  lists: 0,
+  tables: 0,
+  codeBlocks: 0,
+  quotes: 0,
+});
+
+/**
+ * 按文档顺序为各块生成位置描述，如“第 3 章 › 表 2”“第 1 章 › 第 2 节 › 列表 1 › 第 4 项”。
+ * 连续的列表项属于同一个列表，其他块会结束当前列表。
+ */
+export const createBlockPaths = () => {
+  const headingCounts = [0, 0, 0];
+  let sections: Section[] = [newSection("")];
+  let listItem = 0;
+  let inList = false;
+
+  const current = () => sections[sections.length - 1];
+  const sectionPath = () =>
+    joinPath(...sections.map((section) => section.label));
+
+  // 章节内的第 n 个某类块；会结束当前列表
+  const next = (
+    key: "paragraphs" | "tables" | "codeBlocks" | "quotes",
+    label: (n: number) => string,
+  ) => {
+    inList = false;
+    current()[key]++;
+    return joinPath(sectionPath(), label(current()[key]));
+  };
+
+  return {
+    heading: (level: number) => {
+      // 更深的标题都按“小节”计数
+      const depth = Math.min(level, SECTION_UNITS.length) - 1;
+      headingCounts[depth]++;
+      headingCounts.fill(0, depth + 1);
+      sections = [
+        newSection(""),
+        ...headingCounts
+          .slice(0, depth + 1)
+          .map((count, idx) =>
+            newSection(count ? `第 ${count} ${SECTION_UNITS[idx]}` : ""),
+          ),
+      ];
+      inList = false;
+      return joinPath(sectionPath(), "标题");
+    },
+    paragraph: () => next("paragraphs", (n) => `第 ${n} 段`),
+    table: () => next("tables", (n) => `表 ${n}`),
+    codeBlock: () => next("codeBlocks", (n) => `代码块 ${n}`),
+    quote: () => next("quotes", (n) => `引用 ${n}`),
+    listItem: () => {
+      if (!inList) {
+        current().lists++;
+        listItem = 0;
+        inList = true;
+      }
+      listItem++;
+      return joinPath(
+        sectionPath(),
+        `列表 ${current().lists}`,
+        `第 ${listItem} 项`,
+      );
+    },
+    endList: () => {
+      inList = false;
+    },
+  };
+};
+
+/**
+ * 表格各单元格的行列描述（如“第 2 行第 3 列”），rows 为每行各单元格的合并跨度。
+ * 列号跳过上方纵向合并占用的列。
+ */
+export const tableCellLabels = (
+  rows: { colSpan: number; rowSpan: number }[][],
+): string[][] => {
+  const occupied: number[] = []; // 每列被纵向合并占用到第几行（不含）
+  return rows.map((cells, rowIdx) => {
+    let col = 0;
+    return cells.map(({ colSpan, rowSpan }) => {
+      while ((occupied[col] ?? 0) > rowIdx) col++;
+      const label = `第 ${rowIdx + 1} 行第 ${col + 1} 列`;
+      for (let k = 0; k < colSpan; k++) occupied[col + k] = rowIdx + rowSpan;
+      col += colSpan;
+      return label;
+    });
+  });
+};
+
+export interface CollectedBlock<B> {
+  block: B;
+  text: string; // 可含换行，每行单独成为文本中的一行
+  runs: FormatRun[]; // 相对块开头
+}
+
+// 把按顺序收集的块拼成全文，并记录每行所属的块和全文中的格式区间
+export const assembleBlocks = <B>(collected: CollectedBlock<B>[]) => {
+  const lines: string[] = [];
+  const lineRefs: number[] = [];
+  const formats: FormatRun[] = [];
+  let offset = 0;
+  collected.forEach(({ text, runs }, idx) => {
+    for (const line of text.split("\n")) {
+      lines.push(line);
+      lineRefs.push(idx);
+    }
+    runs.forEach((run) =>
+      formats.push({
+        ...run,
+        start: offset + run.start,
+        end: offset + run.end,
+      }),
+    );
+    offset += text.length + 1;
+  });
+
+  return {
+    text: lines.join("\n"),
+    blocks: collected.map(({ block }) => block),
+    lineRefs,
+    formats,
+  };
+};
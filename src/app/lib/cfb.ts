@@ -0,0 +1,212 @@
+// OLE 复合文档（Compound File Binary）的文件头签名
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// 扇区编号中的特殊值
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+
+const HEADER_DIFAT_COUNT = 109;
+const DIRECTORY_ENTRY_SIZE = 128;
+
+export const isCompoundFile = (data: ArrayBuffer) => {
+  const bytes = new Uint8Array(data, 0, Math.min(8, data.byteLength));
+  return CFB_SIGNATURE.every((byte, idx) => bytes[idx] === byte);
+};
+
+export interface CompoundFile {
+  streamNames: string[];
+  // 按名称读取流（不区分所在的存储），不存在时返回 null
+  readStream: (name: string) => Uint8Array | null;
+}
+
+const corrupt = (detail: string) =>
+  new Error(`复合文档结构已损坏（${detail}）`);
+
+/**
+ * 解析复合文档（.doc、.xls 以及加密的 Office 文档都采用这种容器）。
+ * 只按名称查找流，不展开存储的层级；扇区链出现越界或循环时报告文件损坏。
+ */
+export const readCompoundFile = (data: ArrayBuffer): CompoundFile => {
+  if (!isCompoundFile(data)) throw corrupt("文件头签名不符");
+  if (data.byteLength < 512) throw corrupt("文件头不完整");
+
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const sectorShift = view.getUint16(0x1e, true);
+  const miniSectorShift = view.getUint16(0x20, true);
+  if (sectorShift !== 9 && sectorShift !== 12) {
+    throw corrupt(`不支持的扇区大小 2^${sectorShift}`);
+  }
+  const sectorSize = 1 << sectorShift;
+  const miniSectorSize = 1 << miniSectorShift;
+  const sectorCount = Math.floor(data.byteLength / sectorSize) - 1;
+
+  const fatSectorCount = view.getUint32(0x2c, true);
+  const firstDirSector = view.getUint32(0x30, true);
+  const miniStreamCutoff = view.getUint32(0x38, true);
+  const firstMiniFatSector = view.getUint32(0x3c, true);
+  const firstDifatSector = view.getUint32(0x44, true);
+
+  const sectorOffset = (sector: number) => {
+    if (sector >= sectorCount) throw corrupt(`扇区 ${sector} 超出文件范围`);
+    return (sector + 1) * sectorSize;
+  };
+
+  // FAT 所在的扇区：文件头中的 109 项，其余在 DIFAT 扇区链中
+  const fatSectors: number[] = [];
+  for (let i = 0; i < HEADER_DIFAT_COUNT; i++) {
+    fatSectors.push(view.getUint32(0x4c + i * 4, true));
+  }
+  const entriesPerSector = sectorSize / 4;
+  let difatSector = firstDifatSector;
+  for (
+    let visited = 0;
+    difatSector !== END_OF_CHAIN && difatSector !== FREE_SECTOR;
+    visited++
+  ) {
+    if (visited > sectorCount) throw corrupt("DIFAT 扇区链循环");
+    const offset = sectorOffset(difatSector);
+    for (let i = 0; i < entriesPerSector - 1; i++) {
+      fatSectors.push(view.getUint32(offset + i * 4, true));
+    }
+    difatSector = view.getUint32(offset + (entriesPerSector - 1) * 4, true);
+  }
+
+  const fat: number[] = [];
+  fatSectors.slice(0, fatSectorCount).forEach((sector) => {
+    const offset = sectorOffset(sector);
+    for (let i = 0; i < entriesPerSector; i++) {
+      fat.push(view.getUint32(offset + i * 4, true));
+    }
+  });
+
+  // 沿扇区链读取，size 为 null 时读到链尾（目录、迷你 FAT 等内部结构）
+  const readChain = (
+    table: number[],
+    start: number,
+    unitSize: number,
+    readUnit: (sector: number) => Uint8Array,
+    size: number | null,
+  ) => {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    let sector = start;
+    while (sector !== END_OF_CHAIN && (size === null || total < size)) {
+      if (sector >= table.length || chunks.length > table.length) {
+        throw corrupt("扇区链越界或循环");
+      }
+      chunks.push(readUnit(sector));
+      total += unitSize;
+      sector = table[sector];
+    }
+    if (size !== null && total < size) throw corrupt("流的长度与扇区链不符");
+
+    const result = new Uint8Array(size ?? total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      const part = chunk.subarray(0, result.length - offset);
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  };
+
+  const readSector = (sector: number) => {
+    const offset = sectorOffset(sector);
+    return bytes.subarray(offset, offset + sectorSize);
+  };
+  const readRegular = (start: number, size: number | null) =>
+    readChain(fat, start, sectorSize, readSector, size);
+
+  interface DirectoryEntry {
+    name: string;
+    type: number; // 1 存储，2 流，5 根
+    start: number;
+    size: number;
+  }
+
+  const directory = readRegular(firstDirSector, null);
+  const dirView = new DataView(
+    directory.buffer,
+    directory.byteOffset,
+    directory.byteLength,
+  );
+  const entries: DirectoryEntry[] = [];
+  for (
+    let offset = 0;
+    offset + DIRECTORY_ENTRY_SIZE <= directory.length;
+    offset += DIRECTORY_ENTRY_SIZE
+  ) {
+    const nameLength = Math.min(dirView.getUint16(offset + 0x40, true), 64);
+    let name = "";
+    for (let i = 0; i + 2 < nameLength; i += 2) {
+      name += String.fromCharCode(dirView.getUint16(offset + i, true));
+    }
+    entries.push({
+      name,
+      type: dirView.getUint8(offset + 0x42),
+      start: dirView.getUint32(offset + 0x74, true),
+      // 版本 3 的文件只使用低 32 位
+      size: dirView.getUint32(offset + 0x78, true),
+    });
+  }
+
+  const root = entries[0];
+  if (!root || root.type !== 5) throw corrupt("缺少根目录项");
+
+  // 小于阈值的流存放在迷你流中，按迷你 FAT 寻址
+  let miniFat: number[] | null = null;
+  let miniStream: Uint8Array | null = null;
+  const readMini = (start: number, size: number) => {
+    if (!miniFat || !miniStream) {
+      const table =
+        firstMiniFatSector === END_OF_CHAIN
+          ? new Uint8Array(0)
+          : readRegular(firstMiniFatSector, null);
+      const tableView = new DataView(
+        table.buffer,
+        table.byteOffset,
+        table.byteLength,
+      );
+      miniFat = [];
+      for (let i = 0; i + 4 <= table.length; i += 4) {
+        miniFat.push(tableView.getUint32(i, true));
+      }
+      miniStream =
+        root.start === END_OF_CHAIN
+          ? new Uint8Array(0)
+          : readRegular(root.start, root.size);
+    }
+    const stream = miniStream;
+    return readChain(
+      miniFat,
+      start,
+      miniSectorSize,
+      (sector) => {
+        const offset = sector * miniSectorSize;
+        if (offset + miniSectorSize > stream.length) {
+          throw corrupt(`迷你扇区 ${sector} 超出范围`);
+        }
+        return stream.subarray(offset, offset + miniSectorSize);
+      },
+      size,
+    );
+  };
+
+  const streams = entries.filter(
+    (entry) => entry.type === 2 && entry.start !== NO_STREAM,
+  );
+
+  return {
+    streamNames: streams.map((entry) => entry.name),
+    readStream: (name) => {
+      const entry = streams.find((stream) => stream.name === name);
+      if (!entry) return null;
+      if (entry.size === 0) return new Uint8Array(0);
+      return entry.size < miniStreamCutoff
+        ? readMini(entry.start, entry.size)
+        : readRegular(entry.start, entry.size);
+    },
+  };
+};
@@ -0,0 +1,136 @@
+import type { CompareOptions, ComparisonResult } from "./compare";
+import type { ParsedDocument } from "./read-document";
+import type { SpreadsheetDocument } from "./spreadsheet";
+
+// 已解析过的文档直接传入，避免切换选项时重复解析
+export type DocumentSource =
+  | { file: File }
+  | { parsed: ParsedDocument };
+
+export type CompareStage = "parseA" | "parseB" | "diff";
+
+export const STAGE_LABELS: Record<CompareStage, string> = {
+  parseA: "解析文档 A",
+  parseB: "解析文档 B",
+  diff: "计算差异",
+};
+
+export interface CompareRequest {
+  sourceA: DocumentSource;
+  sourceB: DocumentSource;
+  options: CompareOptions;
+}
+
+// 发给 worker 的任务：对比两份文档，只解析一组文件（多版本、三方合并），或读取表格
+export type WorkerRequest =
+  | ({ type: "compare" } & CompareRequest)
+  | { type: "parse"; files: File[] }
+  | { type: "spreadsheet"; files: File[] };
+
+export type WorkerResponse =
+  | { type: "progress"; stage: CompareStage; progress: number }
+  | { type: "document"; side: "A" | "B"; doc: ParsedDocument }
+  | { type: "result"; result: ComparisonResult }
+  | { type: "parse-progress"; progress: number }
+  | { type: "parsed"; docs: ParsedDocument[] }
+  | { type: "spreadsheets"; docs: SpreadsheetDocument[] }
+  | { type: "error"; message: string };
+
+export interface CompareJobHandlers {
+  onProgress?: (stage: CompareStage, progress: number) => void;
+  // 文件解析完成时回调，先于对比结果到达
+  onDocument?: (side: "A" | "B", doc: ParsedDocument) => void;
+}
+
+export interface WorkerJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export type CompareJob = WorkerJob<ComparisonResult>;
+
+export const isCancelledError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+/**
+ * 在独立的 Web Worker 中执行一个任务，handle 处理除错误外的消息，调用 done 结束任务。
+ * 每个任务使用一个新的 worker，取消时直接 terminate，正在进行的计算也会立即停止。
+ */
+const runJob = <T>(
+  request: WorkerRequest,
+  handle: (message: WorkerResponse, done: (value: T) => void) => void,
+): WorkerJob<T> => {
+  const worker = new Worker(
+    new URL("../workers/compare.worker.ts", import.meta.url),
+  );
+  let rejectJob: (reason: unknown) => void = () => {};
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "error") {
+        worker.terminate();
+        reject(new Error(message.message));
+        return;
+      }
+      handle(message, (value) => {
+        worker.terminate();
+        resolve(value);
+      });
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "后台任务异常退出"));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectJob(new DOMException("任务已取消", "AbortError"));
+    },
+  };
+};
+
+// 对比一次文档（解析 + diff + 生成片段）
+export const startCompareJob = (
+  request: CompareRequest,
+  handlers: CompareJobHandlers = {},
+): CompareJob =>
+  runJob({ type: "compare", ...request }, (message, done) => {
+    switch (message.type) {
+      case "progress":
+        handlers.onProgress?.(message.stage, message.progress);
+        break;
+      case "document":
+        handlers.onDocument?.(message.side, message.doc);
+        break;
+      case "result":
+        done(message.result);
+        break;
+    }
+  });
+
+// 按顺序解析一组文件，进度为全部文件的整体进度
+export const startParseJob = (
+  files: File[],
+  onProgress?: (progress: number) => void,
+): WorkerJob<ParsedDocument[]> =>
+  runJob({ type: "parse", files }, (message, done) => {
+    if (message.type === "parse-progress") onProgress?.(message.progress);
+    else if (message.type === "parsed") done(message.docs);
+  });
+
+// 读取一组表格文件（exceljs 解析较慢，放在 worker 中）
+export const startSpreadsheetJob = (
+  files: File[],
+): WorkerJob<SpreadsheetDocument[]> =>
+  runJob({ type: "spreadsheet", files }, (message, done) => {
+    if (message.type === "spreadsheets") done(message.docs);
+  });
@@ -0,0 +1,513 @@
+import DiffMatchPatch from "diff-match-patch";
+import { diffByBlocks } from "./block-diff";
+import { diffByGranularity, type DiffGranularity } from "./diff-granularity";
+import {
+  alignDiffs,
+  composeNormalized,
+  DEFAULT_NORMALIZE_OPTIONS,
+  hasNormalization,
+  NORMALIZE_OPTION_LABELS,
+  normalizeText,
+  toAlignedDiffs,
+  type AlignedDiff,
+  type NormalizeOptions,
+} from "./normalize";
+import type { LineAnchor } from "./line-alignment";
+import { splitByLineIds, type MergeChunk } from "./merge";
+import { detectMoves, moveRuns, type DetectedMove } from "./move-detection";
+import { documentStructure, type ParsedDocument } from "./read-document";
+import {
+  CODE_IGNORE_OPTION_LABELS,
+  DEFAULT_CODE_IGNORE_OPTIONS,
+  stripSourceCode,
+  type CodeIgnoreOptions,
+  type SourceCodeText,
+} from "./source-code";
+import { createFormatCursor, diffFormats } from "./text-format";
+import type { ChangeOrigin } from "./three-way";
+
+export interface DiffItem {
+  id: number;
+  type:
+    | "addition"
+    | "deletion"
+    | "modification"
+    | "moved"
+    | "format"
+    | "conflict";
+  textA: string;
+  textB: string;
+  position: string;
+  origin?: ChangeOrigin; // 三方比较：修改来自哪一方
+  editCount?: number; // 移动：块内小改动的处数
+  formatChange?: string; // 格式：如“加粗 → 常规”
+}
+
+export interface DifferenceSegment {
+  id: number;
+  type: "addition" | "deletion" | "modification" | "moved" | "format";
+  line: number; // 0-based line index (split by \n)
+  startCol: number; // 0-based column in the line
+  endCol: number; // exclusive
+  text: string;
+  move?: "from" | "to"; // 移动：原位置 / 新位置
+  edited?: boolean; // 移动块内被改动的文字
+}
+
+export interface CompareOptions extends NormalizeOptions, CodeIgnoreOptions {
+  granularity: DiffGranularity;
+  ignoreFormatting: boolean; // 不报告格式与行内标记（加粗、链接等）的变化
+}
+
+export const DEFAULT_COMPARE_OPTIONS: CompareOptions = {
+  granularity: "character",
+  ignoreFormatting: false,
+  ...DEFAULT_NORMALIZE_OPTIONS,
+  ...DEFAULT_CODE_IGNORE_OPTIONS,
+};
+
+// “忽略差异”一组开关的名称：文本归一化之外，还可以忽略格式变化和代码的注释、缩进
+export const IGNORE_OPTION_LABELS: Record<
+  keyof NormalizeOptions | keyof CodeIgnoreOptions | "ignoreFormatting",
+  string
+> = {
+  ...NORMALIZE_OPTION_LABELS,
+  ignoreFormatting: "忽略格式/标记变化",
+  ...CODE_IGNORE_OPTION_LABELS,
+};
+
+// 每行所属块的类型，用于按块对比
+const lineKindsOf = (structure: {
+  blocks: { kind: string }[];
+  lineRefs: number[];
+}) => structure.lineRefs.map((ref) => structure.blocks[ref].kind);
+
+// 按对比选项计算 diff；开启归一化时先在归一化文本上比较，再映射回原文。
+// 传入 lineKinds（两侧每行的块类型）时按块对比；忽略换行会打乱行与块的对应，此时退回普通对比。
+// 源代码（code）先按语言去掉注释或空白，再做其余的归一化
+const computeDiffs = (
+  textA: string,
+  textB: string,
+  options: CompareOptions,
+  lineKinds?: [string[], string[]],
+  code: [SourceCodeText?, SourceCodeText?] = [],
+): AlignedDiff[] => {
+  const dmp = new DiffMatchPatch();
+  const diff = (a: string, b: string) =>
+    lineKinds && !options.ignoreLineBreaks
+      ? diffByBlocks(
+          dmp,
+          a,
+          lineKinds[0],
+          b,
+          lineKinds[1],
+          options.granularity,
+        )
+      : diffByGranularity(dmp, a, b, options.granularity);
+
+  const stripsCode =
+    (options.ignoreComments || options.ignoreIndentation) && code.some(Boolean);
+  if (!hasNormalization(options) && !stripsCode) {
+    return toAlignedDiffs(diff(textA, textB));
+  }
+
+  const normalize = (text: string, source?: SourceCodeText) => {
+    if (!source || !(options.ignoreComments || options.ignoreIndentation)) {
+      return normalizeText(text, options);
+    }
+    const stripped = stripSourceCode(text, source, options);
+    return composeNormalized(stripped, normalizeText(stripped.text, options));
+  };
+  const normA = normalize(textA, code[0]);
+  const normB = normalize(textB, code[1]);
+  const diffs = diff(normA.text, normB.text);
+  return alignDiffs(diffs, textA, normA, textB, normB);
+};
+
+export interface ComparisonResult {
+  differences: DiffItem[];
+  differencesA: DifferenceSegment[];
+  differencesB: DifferenceSegment[];
+  lineAnchors: LineAnchor[]; // 用于两侧同步滚动
+  // 统一（行内）视图：按阅读顺序合并删除与新增内容，差异 id 与两侧一致
+  unified: {
+    text: string;
+    differences: DifferenceSegment[];
+  };
+  mergeChunks: MergeChunk[]; // 按审阅结果合并文档
+}
+
+// 计算两个文档的差异，并映射为差异列表和两侧的行列高亮片段
+export const compareDocuments = (
+  docA: ParsedDocument,
+  docB: ParsedDocument,
+  options: CompareOptions,
+): ComparisonResult => {
+  // 两侧都提取了块结构（Word、Markdown、HTML）时按块对比
+  const structureA = documentStructure(docA);
+  const structureB = documentStructure(docB);
+  const lineKinds: [string[], string[]] | undefined =
+    structureA && structureB
+      ? [lineKindsOf(structureA), lineKindsOf(structureB)]
+      : undefined;
+  const { diffs, moves } = detectMoves(
+    computeDiffs(docA.text, docB.text, options, lineKinds, [
+      docA.code,
+      docB.code,
+    ]),
+  );
+  const moveAt = new Map<number, DetectedMove>();
+  moves.forEach((move) => moveAt.set(move.from, move).set(move.to, move));
+  // 移动的两端共用一条差异，先遇到的一端创建，另一端补全位置
+  const movedItems = new Map<DetectedMove, DiffItem>();
+
+  const diffItems: DiffItem[] = [];
+  const diffsA: DifferenceSegment[] = [];
+  const diffsB: DifferenceSegment[] = [];
+  const lineAnchors: LineAnchor[] = [[0, 0]];
+  const unifiedParts: string[] = [];
+  const diffsU: DifferenceSegment[] = [];
+  const mergeChunks: MergeChunk[] = [];
+  let diffId = 1;
+
+  type Cursor = { line: number; col: number; offset: number };
+  const cursorA: Cursor = { line: 0, col: 0, offset: 0 };
+  const cursorB: Cursor = { line: 0, col: 0, offset: 0 };
+  const cursorU: Cursor = { line: 0, col: 0, offset: 0 };
+
+  // 两侧都有格式信息时，文字相同的部分再比较格式
+  const [formatsA, formatsB] =
+    structureA && structureB && !options.ignoreFormatting
+      ? [
+          createFormatCursor(structureA.formats),
+          createFormatCursor(structureB.formats),
+        ]
+      : [];
+
+  // 两侧都是 PDF 时按页定位，否则按行列定位
+  const bothPdf = !!docA.pdf && !!docB.pdf;
+  const describePosition = (
+    which: "A" | "B",
+    line: number,
+    col: number,
+  ) => {
+    const pdf = which === "A" ? docA.pdf : docB.pdf;
+    const ref = bothPdf ? pdf?.lineRefs[line] : null;
+    if (pdf && ref) {
+      return `第 ${pdf.pages[ref.page].pageNumber} 页`;
+    }
+    // 结构化文档按章节、表格等结构定位
+    const structure = which === "A" ? structureA : structureB;
+    const block = structure?.blocks[structure.lineRefs[line]];
+    if (block) return block.path;
+    return `第 ${line + 1} 行，第 ${col + 1} 字符`;
+  };
+
+  const advanceCursor = (cursor: Cursor, text: string) => {
+    cursor.offset += text.length;
+    const parts = text.split("\n");
+    if (parts.length === 1) {
+      cursor.col += text.length;
+      return;
+    }
+    cursor.line += parts.length - 1;
+    cursor.col = parts[parts.length - 1].length;
+  };
+
+  const pushAnchor = () => {
+    const last = lineAnchors[lineAnchors.length - 1];
+    if (last[0] !== cursorA.line || last[1] !== cursorB.line) {
+      lineAnchors.push([cursorA.line, cursorB.line]);
+    }
+  };
+
+  const truncate = (text: string) =>
+    text.substring(0, 50) + (text.length > 50 ? "..." : "");
+
+  // 按换行切分差异文本，得到每个非空片段在文档中的行列位置
+  const splitIntoLines = (text: string, baseCursor: Cursor) => {
+    const pieces: { text: string; line: number; col: number }[] = [];
+    let line = baseCursor.line;
+    let col = baseCursor.col;
+
+    text.split("\n").forEach((chunk, idx, lines) => {
+      if (chunk.length > 0) pieces.push({ text: chunk, line, col });
+
+      if (idx < lines.length - 1) {
+        line += 1;
+        col = 0;
+      } else {
+        col += chunk.length;
+      }
+    });
+
+    return pieces;
+  };
+
+  const pushSegment = (
+    which: "A" | "B" | "U",
+    id: number,
+    type: DifferenceSegment["type"],
+    piece: { text: string; line: number; col: number },
+    extra?: Pick<DifferenceSegment, "move" | "edited">,
+  ) => {
+    const segment: DifferenceSegment = {
+      id,
+      type,
+      line: piece.line,
+      startCol: piece.col,
+      endCol: piece.col + piece.text.length,
+      text: piece.text,
+      ...extra,
+    };
+
+    if (which === "A") diffsA.push(segment);
+    else if (which === "B") diffsB.push(segment);
+    else diffsU.push(segment);
+  };
+
+  // 向统一视图追加一段文本；ids 依次对应文本中每个非空行片段
+  const appendUnified = (
+    text: string,
+    type?: "deletion" | "addition",
+    ids: number[] = [],
+  ) => {
+    if (type) {
+      splitIntoLines(text, cursorU).forEach((piece, idx) =>
+        pushSegment("U", ids[Math.min(idx, ids.length - 1)], type, piece),
+      );
+    }
+    unifiedParts.push(text);
+    advanceCursor(cursorU, text);
+  };
+
+  // 单侧的删除/新增：每一行生成一条差异
+  const addSegmentsForText = (
+    which: "A" | "B",
+    text: string,
+    baseCursor: Cursor,
+    startingId: number,
+  ): number => {
+    let nextId = startingId;
+    const type = which === "A" ? "deletion" : "addition";
+    const ids: number[] = [];
+
+    splitIntoLines(text, baseCursor).forEach((piece) => {
+      diffItems.push({
+        id: nextId,
+        type,
+        textA: which === "A" ? truncate(piece.text) : "",
+        textB: which === "B" ? truncate(piece.text) : "",
+        position: describePosition(which, piece.line, piece.col),
+      });
+      pushSegment(which, nextId, type, piece);
+      ids.push(nextId);
+      nextId++;
+    });
+    appendUnified(text, type, ids);
+    splitByLineIds(text, ids).forEach(({ id, text: piece }) =>
+      mergeChunks.push(
+        which === "A"
+          ? { id, textA: piece, textB: "" }
+          : { id, textA: "", textB: piece },
+      ),
+    );
+
+    return nextId;
+  };
+
+  // 相邻的删除 + 新增合并为一条修改，两侧高亮共用同一个 id
+  const addModification = (
+    textA: string,
+    textB: string,
+    startingId: number,
+  ): number => {
+    const piecesA = splitIntoLines(textA, cursorA);
+    const piecesB = splitIntoLines(textB, cursorB);
+
+    // 某一侧只有换行时退化为单侧差异
+    if (piecesA.length === 0) {
+      return addSegmentsForText("B", textB, cursorB, startingId);
+    }
+    if (piecesB.length === 0) {
+      return addSegmentsForText("A", textA, cursorA, startingId);
+    }
+
+    diffItems.push({
+      id: startingId,
+      type: "modification",
+      textA: truncate(textA),
+      textB: truncate(textB),
+      position: describePosition("A", piecesA[0].line, piecesA[0].col),
+    });
+    piecesA.forEach((piece) =>
+      pushSegment("A", startingId, "modification", piece),
+    );
+    piecesB.forEach((piece) =>
+      pushSegment("B", startingId, "modification", piece),
+    );
+    appendUnified(textA, "deletion", [startingId]);
+    appendUnified(textB, "addition", [startingId]);
+    mergeChunks.push({ id: startingId, textA, textB });
+
+    return startingId + 1;
+  };
+
+  // 移动块的一端：在所在一侧与统一视图中高亮，块内改动单独标出
+  const addMove = (
+    which: "A" | "B",
+    text: string,
+    move: DetectedMove,
+    startingId: number,
+  ): number => {
+    const cursor = which === "A" ? cursorA : cursorB;
+    const side = which === "A" ? "from" : "to";
+    const pieces = splitIntoLines(text, cursor);
+    const position = pieces.length
+      ? describePosition(which, pieces[0].line, pieces[0].col)
+      : describePosition(which, cursor.line, cursor.col);
+
+    let nextId = startingId;
+    let item = movedItems.get(move);
+    if (!item) {
+      item = {
+        id: nextId++,
+        type: "moved",
+        textA: truncate(diffs[move.from][1].trim()),
+        textB: truncate(diffs[move.to][2].trim()),
+        position,
+        editCount: move.editCount,
+      };
+      diffItems.push(item);
+      movedItems.set(move, item);
+    } else {
+      item.position =
+        which === "A"
+          ? `${position} → ${item.position}`
+          : `${item.position} → ${position}`;
+    }
+    const id = item.id;
+
+    const runs = moveRuns(move, side);
+    const pushRuns = (target: "A" | "B" | "U", base: Cursor) => {
+      const runCursor = { ...base };
+      runs.forEach((run) => {
+        splitIntoLines(run.text, runCursor).forEach((piece) =>
+          pushSegment(target, id, "moved", piece, {
+            move: side,
+            ...(run.edited && { edited: true }),
+          }),
+        );
+        advanceCursor(runCursor, run.text);
+      });
+    };
+    pushRuns(which, cursor);
+    pushRuns("U", cursorU);
+    unifiedParts.push(text);
+    advanceCursor(cursorU, text);
+    // 接受时原位置删除、新位置插入，拒绝时保持原样
+    mergeChunks.push(
+      which === "A"
+        ? { id, textA: text, textB: "" }
+        : { id, textA: "", textB: text },
+    );
+
+    return nextId;
+  };
+
+  // 相同文字中的格式变化：文字不变，只在两侧与统一视图中标出
+  const addFormatChanges = (text: string, startingId: number): number => {
+    if (!formatsA || !formatsB) return startingId;
+    let nextId = startingId;
+    const posA = { ...cursorA };
+    const posB = { ...cursorB };
+    const posU = { ...cursorU };
+    let consumed = 0;
+
+    diffFormats(
+      text,
+      formatsA,
+      cursorA.offset,
+      formatsB,
+      cursorB.offset,
+    ).forEach(({ start, end, description }) => {
+      const skipped = text.slice(consumed, start);
+      [posA, posB, posU].forEach((pos) => advanceCursor(pos, skipped));
+      const changed = text.slice(start, end);
+      const piecesA = splitIntoLines(changed, posA);
+
+      diffItems.push({
+        id: nextId,
+        type: "format",
+        textA: truncate(changed),
+        textB: truncate(changed),
+        position: describePosition("A", piecesA[0].line, piecesA[0].col),
+        formatChange: description,
+      });
+      piecesA.forEach((piece) => pushSegment("A", nextId, "format", piece));
+      splitIntoLines(changed, posB).forEach((piece) =>
+        pushSegment("B", nextId, "format", piece),
+      );
+      splitIntoLines(changed, posU).forEach((piece) =>
+        pushSegment("U", nextId, "format", piece),
+      );
+      [posA, posB, posU].forEach((pos) => advanceCursor(pos, changed));
+      consumed = end;
+      nextId++;
+    });
+
+    return nextId;
+  };
+
+  for (let i = 0; i < diffs.length; i++) {
+    const [type, textA, textB] = diffs[i];
+    const next = diffs[i + 1];
+    const move = moveAt.get(i);
+
+    if (move) {
+      const which = type === -1 ? "A" : "B";
+      diffId = addMove(which, which === "A" ? textA : textB, move, diffId);
+      if (which === "A") advanceCursor(cursorA, textA);
+      else advanceCursor(cursorB, textB);
+    } else if (
+      type !== 0 &&
+      next &&
+      next[0] === -type &&
+      !moveAt.has(i + 1)
+    ) {
+      const modA = type === -1 ? textA : next[1];
+      const modB = type === 1 ? textB : next[2];
+      diffId = addModification(modA, modB, diffId);
+      advanceCursor(cursorA, modA);
+      advanceCursor(cursorB, modB);
+      i++;
+    } else if (type === -1) {
+      diffId = addSegmentsForText("A", textA, cursorA, diffId);
+      advanceCursor(cursorA, textA);
+    } else if (type === 1) {
+      diffId = addSegmentsForText("B", textB, cursorB, diffId);
+      advanceCursor(cursorB, textB);
+    } else {
+      pushAnchor();
+      if (textA === textB) diffId = addFormatChanges(textA, diffId);
+      advanceCursor(cursorA, textA);
+      advanceCursor(cursorB, textB);
+      appendUnified(textB);
+      mergeChunks.push({ textA, textB });
+      pushAnchor();
+    }
+  }
+  pushAnchor();
+
+  return {
+    differences: diffItems,
+    differencesA: diffsA,
+    differencesB: diffsB,
+    lineAnchors,
+    unified: {
+      text: unifiedParts.join(""),
+      differences: diffsU,
+    },
+    mergeChunks,
+  };
+};
@@ -0,0 +1,310 @@
+import type { CompareOptions, DiffItem, DifferenceSegment } from "./compare";
+
+export type DataExportFormat = "json" | "csv" | "xlsx";
+
+export const DATA_EXPORT_FORMATS: { value: DataExportFormat; label: string }[] =
+  [
+    { value: "json", label: "JSON" },
+    { value: "csv", label: "CSV" },
+    { value: "xlsx", label: "Excel (XLSX)" },
+  ];
+
+export interface ExportFileMeta {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: string; // ISO 8601
+}
+
+// 导出中的行列号都从 1 开始，结束列包含在内（与界面上的“第 x 行，第 y 字符”一致）
+export interface ExportRange {
+  startLine: number;
+  startCol: number;
+  endLine: number;
+  endCol: number;
+}
+
+export interface ExportDifference {
+  id: number;
+  type: DiffItem["type"];
+  position: string;
+  textA: string; // 完整文本，不截断
+  textB: string;
+  rangeA: ExportRange | null;
+  rangeB: ExportRange | null;
+  formatChange?: string; // 格式差异：如“加粗 → 常规”
+}
+
+export interface ExportSegment {
+  id: number;
+  side: "A" | "B";
+  type: DifferenceSegment["type"];
+  line: number;
+  startCol: number;
+  endCol: number;
+  text: string;
+}
+
+export interface ComparisonExport {
+  generatedAt: string;
+  documents: { A: ExportFileMeta; B: ExportFileMeta };
+  options: CompareOptions;
+  summary: {
+    total: number;
+    addition: number;
+    deletion: number;
+    modification: number;
+    moved: number;
+    format: number;
+  };
+  differences: ExportDifference[];
+  segments: ExportSegment[];
+}
+
+export interface ComparisonExportInput {
+  fileA: File;
+  fileB: File;
+  options: CompareOptions;
+  // 两侧文档的全文，差异片段的行列号以此为准
+  contentA: string;
+  contentB: string;
+  differences: DiffItem[];
+  differencesA: DifferenceSegment[];
+  differencesB: DifferenceSegment[];
+  generatedAt: Date;
+}
+
+const fileMeta = (file: File): ExportFileMeta => ({
+  name: file.name,
+  size: file.size,
+  type: file.type,
+  lastModified: new Date(file.lastModified).toISOString(),
+});
+
+const toExportSegment = (
+  side: "A" | "B",
+  segment: DifferenceSegment,
+): ExportSegment => ({
+  id: segment.id,
+  side,
+  type: segment.type,
+  line: segment.line + 1,
+  startCol: segment.startCol + 1,
+  endCol: segment.endCol,
+  text: segment.text,
+});
+
+const groupById = (segments: ExportSegment[]) => {
+  const map = new Map<number, ExportSegment[]>();
+  for (const segment of segments) {
+    if (!map.has(segment.id)) map.set(segment.id, []);
+    map.get(segment.id)!.push(segment);
+  }
+  return map;
+};
+
+// 一处差异在某一侧的片段按行排列，首尾片段确定范围
+const rangeOf = (segments: ExportSegment[] = []): ExportRange | null => {
+  if (segments.length === 0) return null;
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  return {
+    startLine: first.line,
+    startCol: first.startCol,
+    endLine: last.line,
+    endCol: last.endCol,
+  };
+};
+
+// 按范围从原文截取完整内容，差异中间的空行也保留
+const textInRange = (content: string, range: ExportRange | null) => {
+  if (!range) return "";
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") lineStarts.push(i + 1);
+  }
+  const start = lineStarts[range.startLine - 1] + range.startCol - 1;
+  const end = lineStarts[range.endLine - 1] + range.endCol;
+  return content.slice(start, end);
+};
+
+export const buildComparisonExport = (
+  input: ComparisonExportInput,
+): ComparisonExport => {
+  const segmentsA = input.differencesA.map((s) => toExportSegment("A", s));
+  const segmentsB = input.differencesB.map((s) => toExportSegment("B", s));
+  const byIdA = groupById(segmentsA);
+  const byIdB = groupById(segmentsB);
+  const count = (type: DiffItem["type"]) =>
+    input.differences.filter((diff) => diff.type === type).length;
+
+  return {
+    generatedAt: input.generatedAt.toISOString(),
+    documents: { A: fileMeta(input.fileA), B: fileMeta(input.fileB) },
+    options: input.options,
+    summary: {
+      total: input.differences.length,
+      addition: count("addition"),
+      deletion: count("deletion"),
+      modification: count("modification"),
+      moved: count("moved"),
+      format: count("format"),
+    },
+    differences: input.differences.map((diff) => {
+      const rangeA = rangeOf(byIdA.get(diff.id));
+      const rangeB = rangeOf(byIdB.get(diff.id));
+      return {
+        id: diff.id,
+        type: diff.type,
+        position: diff.position,
+        textA: textInRange(input.contentA, rangeA),
+        textB: textInRange(input.contentB, rangeB),
+        rangeA,
+        rangeB,
+        ...(diff.formatChange && { formatChange: diff.formatChange }),
+      };
+    }),
+    segments: [...segmentsA, ...segmentsB],
+  };
+};
+
+type Cell = string | number;
+
+const DIFFERENCE_HEADERS = [
+  "id",
+  "type",
+  "position",
+  "fileA",
+  "startLineA",
+  "startColA",
+  "endLineA",
+  "endColA",
+  "textA",
+  "fileB",
+  "startLineB",
+  "startColB",
+  "endLineB",
+  "endColB",
+  "textB",
+  "formatChange",
+];
+
+const SEGMENT_HEADERS = [
+  "id",
+  "side",
+  "type",
+  "file",
+  "line",
+  "startCol",
+  "endCol",
+  "text",
+];
+
+const rangeCells = (range: ExportRange | null): Cell[] =>
+  range
+    ? [range.startLine, range.startCol, range.endLine, range.endCol]
+    : ["", "", "", ""];
+
+const differenceRows = (data: ComparisonExport): Cell[][] =>
+  data.differences.map((diff) => [
+    diff.id,
+    diff.type,
+    diff.position,
+    data.documents.A.name,
+    ...rangeCells(diff.rangeA),
+    diff.textA,
+    data.documents.B.name,
+    ...rangeCells(diff.rangeB),
+    diff.textB,
+    diff.formatChange ?? "",
+  ]);
+
+const segmentRows = (data: ComparisonExport): Cell[][] =>
+  data.segments.map((segment) => [
+    segment.id,
+    segment.side,
+    segment.type,
+    data.documents[segment.side].name,
+    segment.line,
+    segment.startCol,
+    segment.endCol,
+    segment.text,
+  ]);
+
+// 以这些字符开头的文本在 Excel、Sheets 中会被当作公式执行
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180：含逗号、引号或换行的字段整体加引号，内部引号成对转义；
+// 可能被当作公式的文本前加单引号，按普通文本显示
+const csvCell = (cell: Cell) => {
+  const text =
+    typeof cell === "string" && FORMULA_PREFIX.test(cell)
+      ? `'${cell}`
+      : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (headers: string[], rows: Cell[][]) =>
+  // 加 BOM，Excel 才能按 UTF-8 正确识别中文
+  "\uFEFF" +
+  [headers, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") +
+  "\r\n";
+
+export const toJsonBlob = (data: ComparisonExport) =>
+  new Blob([JSON.stringify(data, null, 2)], {
+    type: "application/json;charset=utf-8",
+  });
+
+// CSV 只能容纳一张表：差异与片段分为两个文件
+export const toCsvBlobs = (data: ComparisonExport) => ({
+  differences: new Blob([toCsv(DIFFERENCE_HEADERS, differenceRows(data))], {
+    type: "text/csv;charset=utf-8",
+  }),
+  segments: new Blob([toCsv(SEGMENT_HEADERS, segmentRows(data))], {
+    type: "text/csv;charset=utf-8",
+  }),
+});
+
+// 三个工作表：概要、差异、片段；exceljs 体积较大，按需加载
+export const toXlsxBlob = async (data: ComparisonExport): Promise<Blob> => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date(data.generatedAt);
+
+  const summary = workbook.addWorksheet("概要");
+  summary.columns = [{ width: 16 }, { width: 48 }];
+  summary.addRows([
+    ["生成时间", data.generatedAt],
+    ["文档 A", data.documents.A.name],
+    ["文档 A 大小", data.documents.A.size],
+    ["文档 A 修改时间", data.documents.A.lastModified],
+    ["文档 B", data.documents.B.name],
+    ["文档 B 大小", data.documents.B.size],
+    ["文档 B 修改时间", data.documents.B.lastModified],
+    ["对比选项", JSON.stringify(data.options)],
+    ["差异总数", data.summary.total],
+    ["新增", data.summary.addition],
+    ["删除", data.summary.deletion],
+    ["修改", data.summary.modification],
+    ["移动", data.summary.moved],
+    ["格式", data.summary.format],
+  ]);
+
+  const addTable = (name: string, headers: string[], rows: Cell[][]) => {
+    const sheet = workbook.addWorksheet(name);
+    sheet.addRow(headers).font = { bold: true };
+    sheet.addRows(rows);
+    sheet.views = [{ state: "frozen", ySplit: 1 }];
+    sheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: headers.length },
+    };
+  };
+  addTable("差异", DIFFERENCE_HEADERS, differenceRows(data));
+  addTable("片段", SEGMENT_HEADERS, segmentRows(data));
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
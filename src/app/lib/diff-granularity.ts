@@ -0,0 +1,115 @@
+import DiffMatchPatch from "diff-match-patch";
+import { CJK_CHARS } from "./text-utils";
+
+export type DiffGranularity =
+  | "character"
+  | "word"
+  | "sentence"
+  | "line"
+  | "paragraph";
+
+export const GRANULARITY_OPTIONS: {
+  value: DiffGranularity;
+  label: string;
+}[] = [
+  { value: "character", label: "按字符" },
+  { value: "word", label: "按词" },
+  { value: "sentence", label: "按句" },
+  { value: "line", label: "按行" },
+  { value: "paragraph", label: "按段落" },
+];
+
+// diff-match-patch 以 UTF-16 码元作为比较单位，能编码的片段种类有限；
+// 与 diff_linesToChars_ 相同，给 A 留 40000 种，其余留给 B
+const MAX_TOKENS_A = 40000;
+const MAX_TOKENS_B = 65535;
+
+// 换行单独成为一个片段，保证差异不会跨行粘连
+const splitKeepingNewlines = (text: string) =>
+  text.split(/(\n)/).filter((part) => part.length > 0);
+
+const segmentText = (
+  text: string,
+  granularity: "word" | "sentence",
+): string[] => {
+  if (typeof Intl !== "undefined" && "Segmenter" in Intl) {
+    // 中文分词依赖 ICU 词典，CJK 词语会被整体保留
+    const segmenter = new Intl.Segmenter("zh", { granularity });
+    return Array.from(segmenter.segment(text), (s) => s.segment).flatMap(
+      splitKeepingNewlines,
+    );
+  }
+
+  // 不支持 Intl.Segmenter 的环境：词按空白/标点/单个汉字切分，句按句末标点切分
+  const pattern =
+    granularity === "word"
+      ? new RegExp(`(\\s+|${CJK_CHARS}|[^\\s\\w])`)
+      : /([^。！？!?.\n]*[。！？!?.]+\s*)/;
+  return text
+    .split(pattern)
+    .filter((part) => part.length > 0)
+    .flatMap(splitKeepingNewlines);
+};
+
+export const tokenize = (
+  text: string,
+  granularity: DiffGranularity,
+): string[] => {
+  switch (granularity) {
+    case "character":
+      return Array.from(text);
+    case "word":
+    case "sentence":
+      return segmentText(text, granularity);
+    case "line":
+      // 每行连同行尾换行作为一个片段，整行增删（与 diff_linesToChars_ 相同）
+      return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+    case "paragraph":
+      return splitKeepingNewlines(text);
+  }
+};
+
+/**
+ * 把两段文本的片段编码为单个字符后再做 diff，最后还原为原文片段。
+ * 做法与 diff-match-patch 的按行对比（diff_linesToChars_）一致，
+ * 还原后的结果仍是普通的 [op, text] 数组，可直接映射到行列位置。
+ */
+export const diffByGranularity = (
+  dmp: DiffMatchPatch,
+  textA: string,
+  textB: string,
+  granularity: DiffGranularity,
+): DiffMatchPatch.Diff[] => {
+  if (granularity === "character") {
+    return dmp.diff_main(textA, textB);
+  }
+
+  // tokenArray[0] 留空，与 diff_charsToLines_ 的约定一致
+  const tokenArray: string[] = [""];
+  const tokenHash = new Map<string, number>();
+
+  const encode = (tokens: string[], maxTokens: number) => {
+    let chars = "";
+    for (let i = 0; i < tokens.length; i++) {
+      // 片段种类超出上限时，把剩余内容合并为最后一个片段
+      const token =
+        tokenArray.length >= maxTokens ? tokens.slice(i).join("") : tokens[i];
+      let code = tokenHash.get(token);
+      if (code === undefined) {
+        code = tokenArray.length;
+        tokenArray.push(token);
+        tokenHash.set(token, code);
+      }
+      chars += String.fromCharCode(code);
+      if (token !== tokens[i]) break;
+    }
+    return chars;
+  };
+
+  const charsA = encode(tokenize(textA, granularity), MAX_TOKENS_A);
+  const charsB = encode(tokenize(textB, granularity), MAX_TOKENS_B);
+
+  const diffs = dmp.diff_main(charsA, charsB, false);
+  dmp.diff_charsToLines_(diffs, tokenArray);
+  return diffs;
+};
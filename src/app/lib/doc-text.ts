@@ -0,0 +1,184 @@
+import { readCompoundFile } from "./cfb";
+
+// Word 97-2003 的 FIB（文件信息块）标识；Word 6.0/95 为 0xa5dc
+const WORD97_IDENT = 0xa5ec;
+const WORD95_IDENT = 0xa5dc;
+
+const FIB_ENCRYPTED = 0x0100;
+const FIB_WHICH_TABLE = 0x0200;
+const FIB_OBFUSCATED = 0x8000;
+
+// FibRgFcLcb97 中 fcClx / lcbClx 的序号（每项 8 字节）
+const CLX_INDEX = 33;
+// 文本片段的 fc 中表示“压缩”（每字符一字节，按 cp1252 编码）的标志位
+const FC_COMPRESSED = 0x40000000;
+
+const ENCRYPTED_MESSAGE =
+  "文档已加密（设置了打开密码），请在 Word 中取消密码后再对比";
+
+const corrupt = (detail: string) =>
+  new Error(`DOC 文件已损坏或不完整（${detail}）`);
+
+interface Piece {
+  cpStart: number;
+  cpEnd: number;
+  fc: number;
+  compressed: boolean;
+}
+
+// 从表格流中的 Clx 读取片段表：跳过 Prc，找到 Pcdt 后解析 PlcPcd
+const readPieces = (table: DataView, fcClx: number, lcbClx: number) => {
+  let pos = fcClx;
+  const end = fcClx + lcbClx;
+  while (pos < end) {
+    const clxt = table.getUint8(pos);
+    if (clxt === 0x01) {
+      pos += 3 + table.getInt16(pos + 1, true);
+      continue;
+    }
+    if (clxt !== 0x02) throw corrupt("片段表格式不符");
+
+    const lcb = table.getUint32(pos + 1, true);
+    const base = pos + 5;
+    // PlcPcd：n + 1 个字符位置，随后 n 个 8 字节的片段描述
+    const count = (lcb - 4) / 12;
+    if (!Number.isInteger(count) || count < 0) {
+      throw corrupt("片段表长度不符");
+    }
+    const pieces: Piece[] = [];
+    for (let i = 0; i < count; i++) {
+      const pcd = base + (count + 1) * 4 + i * 8;
+      const fcValue = table.getUint32(pcd + 2, true);
+      const compressed = (fcValue & FC_COMPRESSED) !== 0;
+      pieces.push({
+        cpStart: table.getUint32(base + i * 4, true),
+        cpEnd: table.getUint32(base + (i + 1) * 4, true),
+        fc: compressed ? (fcValue & ~FC_COMPRESSED) / 2 : fcValue,
+        compressed,
+      });
+    }
+    return pieces;
+  }
+  throw corrupt("缺少片段表");
+};
+
+/**
+ * 把 Word 的特殊字符换成普通文本：段落、单元格、换行、分页都成为换行；
+ * 域只保留结果（跳过域代码）；图片、脚注引用等占位符去掉。
+ */
+const cleanWordText = (raw: string) => {
+  let text = "";
+  // 每层域是否已经过分隔符（之后才是要显示的结果）
+  const fields: boolean[] = [];
+  for (const char of raw) {
+    const code = char.charCodeAt(0);
+    if (code === 0x13) {
+      fields.push(false);
+      continue;
+    }
+    if (code === 0x14) {
+      if (fields.length) fields[fields.length - 1] = true;
+      continue;
+    }
+    if (code === 0x15) {
+      fields.pop();
+      continue;
+    }
+    if (fields.some((separated) => !separated)) continue;
+
+    // 段落结束、单元格结束、手动换行、分页、分栏
+    if ([0x0d, 0x07, 0x0b, 0x0c, 0x0e].includes(code)) {
+      text += "\n";
+    } else if (code === 0x1e) {
+      text += "-";
+    } else if (code === 0x09 || code >= 0x20) {
+      text += char;
+    }
+  }
+  // 与 DOCX 一致：空段落不单独成行
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""))
+    .filter((line) => line.trim())
+    .join("\n");
+};
+
+/**
+ * 提取 Word 97-2003 二进制文档（.doc）的正文文字。
+ * 依次读取 FIB、表格流中的片段表，再按片段从 WordDocument 流中解码文字；
+ * 页眉页脚、脚注和批注不在正文范围内，不提取。
+ */
+export const extractDocText = (data: ArrayBuffer): string => {
+  const cfb = readCompoundFile(data);
+  // 设置了打开密码的 DOCX/XLSX 也保存为复合文档
+  if (cfb.streamNames.includes("EncryptedPackage")) {
+    throw new Error(ENCRYPTED_MESSAGE);
+  }
+
+  const wordStream = cfb.readStream("WordDocument");
+  if (!wordStream) {
+    throw new Error("不是 Word 文档（缺少 WordDocument 流）");
+  }
+
+  try {
+    const word = new DataView(
+      wordStream.buffer,
+      wordStream.byteOffset,
+      wordStream.byteLength,
+    );
+    const ident = word.getUint16(0, true);
+    if (ident === WORD95_IDENT) {
+      throw new Error(
+        "暂不支持 Word 6.0/95 格式，请在 Word 中另存为 DOCX 后再对比",
+      );
+    }
+    if (ident !== WORD97_IDENT) throw corrupt("文件信息块标识不符");
+
+    const flags = word.getUint16(0x0a, true);
+    if (flags & (FIB_ENCRYPTED | FIB_OBFUSCATED)) {
+      throw new Error(ENCRYPTED_MESSAGE);
+    }
+
+    // FIB 由定长的 FibBase 和若干变长数组组成，逐段跳到 FibRgFcLcb
+    let pos = 32;
+    const csw = word.getUint16(pos, true);
+    pos += 2 + csw * 2;
+    const cslw = word.getUint16(pos, true);
+    const rgLw = pos + 2;
+    const ccpText = word.getInt32(rgLw + 3 * 4, true);
+    pos = rgLw + cslw * 4;
+    const cbRgFcLcb = word.getUint16(pos, true);
+    if (cbRgFcLcb <= CLX_INDEX) throw corrupt("文件信息块过短");
+    const rgFcLcb = pos + 2;
+    const fcClx = word.getUint32(rgFcLcb + CLX_INDEX * 8, true);
+    const lcbClx = word.getUint32(rgFcLcb + CLX_INDEX * 8 + 4, true);
+
+    const tableName = flags & FIB_WHICH_TABLE ? "1Table" : "0Table";
+    const tableStream = cfb.readStream(tableName);
+    if (!tableStream) throw corrupt(`缺少 ${tableName} 流`);
+    const table = new DataView(
+      tableStream.buffer,
+      tableStream.byteOffset,
+      tableStream.byteLength,
+    );
+
+    const utf16 = new TextDecoder("utf-16le");
+    const cp1252 = new TextDecoder("windows-1252");
+    let raw = "";
+    for (const piece of readPieces(table, fcClx, lcbClx)) {
+      if (piece.cpStart >= ccpText) break;
+      const length = Math.min(piece.cpEnd, ccpText) - piece.cpStart;
+      const byteLength = piece.compressed ? length : length * 2;
+      if (piece.fc + byteLength > wordStream.length) {
+        throw corrupt("文本片段超出范围");
+      }
+      const slice = wordStream.subarray(piece.fc, piece.fc + byteLength);
+      raw += (piece.compressed ? cp1252 : utf16).decode(slice);
+    }
+    return cleanWordText(raw);
+  } catch (error) {
+    // DataView 读取越界说明结构被截断
+    if (error instanceof RangeError) throw corrupt("数据越界");
+    throw error;
+  }
+};
@@ -0,0 +1,16 @@
+// 纯文本按行转为 DOCX 段落；docx 体积较大，按需加载
+export const textToDocx = async (text: string): Promise<Blob> => {
+  const { Document, Packer, Paragraph, TextRun } = await import("docx");
+
+  const doc = new Document({
+    sections: [
+      {
+        children: text
+          .split("\n")
+          .map((line) => new Paragraph({ children: [new TextRun(line)] })),
+      },
+    ],
+  });
+
+  return Packer.toBlob(doc);
+};
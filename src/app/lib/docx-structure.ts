@@ -0,0 +1,278 @@
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import {
+  assembleBlocks,
+  createBlockPaths,
+  joinPath,
+  tableCellLabels,
+  type CollectedBlock,
+} from "./block-structure";
+import { isNodeRuntime } from "./runtime";
+import type { FormatRun } from "./text-format";
+
+export type DocxBlockKind =
+  | "paragraph"
+  | "heading"
+  | "list-item"
+  | "table-cell";
+
+export interface DocxBlock {
+  kind: DocxBlockKind;
+  path: string; // 如“第 3 章 › 表 2 › 第 4 行第 2 列”
+}
+
+// 结构化的 Word 文本：每个块独占一行或多行，lineRefs 为每行所属块的下标
+export interface DocxDocumentText {
+  text: string;
+  blocks: DocxBlock[];
+  lineRefs: number[];
+  formats: FormatRun[]; // 各 run 的直接格式，按在 text 中的位置排列
+}
+
+// mammoth 文档模型中用到的字段（transformDocument 收到的元素）
+interface DocxElement {
+  type: string;
+  children?: DocxElement[];
+  value?: string;
+  styleId?: string | null;
+  styleName?: string | null;
+  numbering?: { level: string; isOrdered: boolean } | null;
+  breakType?: string;
+  colSpan?: number;
+  rowSpan?: number;
+  isBold?: boolean;
+  isItalic?: boolean;
+  isUnderline?: boolean;
+  isStrikethrough?: boolean;
+  font?: string | null;
+  fontSize?: number | null;
+  highlight?: string | null;
+  href?: string;
+  anchor?: string;
+}
+
+// 按文字查找颜色：参数为 mammoth 中依次出现的文字片段
+type ColorLookup = (text: string) => string | null;
+
+// 标题样式：Word 内置样式名为 “heading 1”，部分中文模板为 “标题 1”
+const headingLevel = (paragraph: DocxElement) => {
+  const name = paragraph.styleName ?? paragraph.styleId ?? "";
+  const match = /^(?:heading|标题)\s*(\d)$/i.exec(name.trim());
+  return match ? Number(match[1]) : null;
+};
+
+// 段落的文字及其中各 run 的格式区间（相对段落开头）
+const paragraphContent = (paragraph: DocxElement, colorOf: ColorLookup) => {
+  let text = "";
+  const runs: FormatRun[] = [];
+
+  const visit = (
+    element: DocxElement,
+    run?: DocxElement,
+    link: string | null = null,
+  ) => {
+    switch (element.type) {
+      case "text": {
+        const value = element.value ?? "";
+        if (value && run) {
+          runs.push({
+            start: text.length,
+            end: text.length + value.length,
+            format: {
+              bold: !!run.isBold,
+              italic: !!run.isItalic,
+              underline: !!run.isUnderline,
+              strikethrough: !!run.isStrikethrough,
+              font: run.font ?? null,
+              fontSize: run.fontSize ?? null,
+              color: colorOf(value),
+              highlight: run.highlight ?? null,
+              link,
+            },
+          });
+        }
+        text += value;
+        return;
+      }
+      case "tab":
+        text += "\t";
+        return;
+      case "break":
+        if (element.breakType === "line") text += "\n";
+        return;
+      case "noteReference":
+      case "commentReference":
+      case "image":
+        return;
+      case "hyperlink": {
+        const href =
+          element.href ?? (element.anchor ? `#${element.anchor}` : null);
+        (element.children ?? []).forEach((child) => visit(child, run, href));
+        return;
+      }
+      default:
+        (element.children ?? []).forEach((child) =>
+          visit(child, element.type === "run" ? element : run, link),
+        );
+    }
+  };
+
+  visit(paragraph);
+  return { text, runs };
+};
+
+// 颜色在全文中按顺序查找，两次匹配之间最多跳过这么多字
+const COLOR_SEARCH_WINDOW = 2000;
+
+const RUN_PATTERN = /<w:r(?:\s[^>]*)?>([\s\S]*?)<\/w:r>/g;
+const TEXT_PATTERN = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g;
+const COLOR_PATTERN = /<w:color\s[^>]*w:val="([0-9A-Fa-f]{6})"/;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+const unescapeXml = (text: string) =>
+  text.replace(/&(#x?[0-9a-fA-F]+|\w+);/g, (entity, name: string) => {
+    if (name[0] !== "#") return XML_ENTITIES[name] ?? entity;
+    const code =
+      name[1] === "x" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+    return String.fromCodePoint(code);
+  });
+
+/**
+ * mammoth 的文档模型不含文字颜色，这里直接扫描 document.xml，按顺序记录每个 run 的颜色。
+ * 返回的查找函数在 XML 文字中从上次的位置向后匹配 mammoth 给出的文字片段，
+ * 个别片段对不上（如域代码、文本框）时不影响后续查找。
+ */
+const readRunColors = async (
+  arrayBuffer: ArrayBuffer,
+): Promise<ColorLookup> => {
+  const zip = await JSZip.loadAsync(arrayBuffer);
+  const xml = (await zip.file("word/document.xml")?.async("string")) ?? "";
+
+  let allText = "";
+  const starts: number[] = [];
+  const colors: (string | null)[] = [];
+  for (const [, body] of xml.matchAll(RUN_PATTERN)) {
+    let runText = "";
+    for (const [, value] of body.matchAll(TEXT_PATTERN)) {
+      runText += unescapeXml(value);
+    }
+    if (!runText) continue;
+    const color = COLOR_PATTERN.exec(body);
+    starts.push(allText.length);
+    colors.push(color ? color[1].toUpperCase() : null);
+    allText += runText;
+  }
+
+  let pos = 0;
+  return (text) => {
+    const idx = allText.indexOf(text, pos);
+    if (idx === -1 || idx - pos > COLOR_SEARCH_WINDOW) return null;
+    pos = idx + text.length;
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= idx) lo = mid;
+      else hi = mid - 1;
+    }
+    return colors[lo];
+  };
+};
+
+const collectBlocks = (document: DocxElement, colorOf: ColorLookup) => {
+  const blocks: CollectedBlock<DocxBlock>[] = [];
+  const paths = createBlockPaths();
+
+  const visitParagraph = (paragraph: DocxElement, cellPath?: string) => {
+    const { text, runs } = paragraphContent(paragraph, colorOf);
+    if (!text.trim()) return;
+    const pushBlock = (kind: DocxBlockKind, path: string) =>
+      blocks.push({ block: { kind, path }, text, runs });
+
+    if (cellPath !== undefined) {
+      pushBlock("table-cell", cellPath);
+      return;
+    }
+
+    const level = headingLevel(paragraph);
+    if (level !== null) {
+      pushBlock("heading", paths.heading(level));
+    } else if (paragraph.numbering) {
+      pushBlock("list-item", paths.listItem());
+    } else {
+      pushBlock("paragraph", paths.paragraph());
+    }
+  };
+
+  const visitTable = (table: DocxElement, parentPath: string) => {
+    const rows = (table.children ?? [])
+      .filter((row) => row.type === "tableRow")
+      .map((row) =>
+        (row.children ?? []).filter((cell) => cell.type === "tableCell"),
+      );
+    const labels = tableCellLabels(
+      rows.map((cells) =>
+        cells.map((cell) => ({
+          colSpan: cell.colSpan ?? 1,
+          rowSpan: cell.rowSpan ?? 1,
+        })),
+      ),
+    );
+    rows.forEach((cells, rowIdx) =>
+      cells.forEach((cell, idx) =>
+        visitChildren(
+          cell.children ?? [],
+          joinPath(parentPath, labels[rowIdx][idx]),
+        ),
+      ),
+    );
+  };
+
+  const visitChildren = (children: DocxElement[], cellPath?: string) => {
+    let nestedTables = 0;
+    for (const child of children) {
+      if (child.type === "paragraph") {
+        visitParagraph(child, cellPath);
+      } else if (child.type === "table") {
+        if (cellPath !== undefined) {
+          nestedTables++;
+          visitTable(child, joinPath(cellPath, `表 ${nestedTables}`));
+        } else {
+          visitTable(child, paths.table());
+        }
+      } else if (child.children) {
+        visitChildren(child.children, cellPath);
+      }
+    }
+  };
+
+  visitChildren(document.children ?? []);
+  return blocks;
+};
+
+// 用 mammoth 的文档模型按块提取文本：标题、段落、列表项、表格单元格各自成行
+export const extractDocxStructure = async (
+  arrayBuffer: ArrayBuffer,
+): Promise<DocxDocumentText> => {
+  const colorOf = await readRunColors(arrayBuffer);
+  let collected: ReturnType<typeof collectBlocks> = [];
+  // mammoth 的 Node.js 版本只接受 Buffer
+  await mammoth.convertToHtml(
+    isNodeRuntime() ? { buffer: Buffer.from(arrayBuffer) } : { arrayBuffer },
+    {
+      transformDocument: (document: DocxElement) => {
+        collected = collectBlocks(document, colorOf);
+        return document;
+      },
+    },
+  );
+
+  return assembleBlocks(collected);
+};
@@ -0,0 +1,33 @@
+// 触发浏览器下载
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// 去掉扩展名，用于生成导出文件名
+export const baseName = (filename: string) =>
+  filename.replace(/\.[^.]+$/, "");
+
+// 在隐藏的 iframe 中打开 HTML 并调起打印，用户可在打印对话框中另存为 PDF
+export const printHtml = (html: string) => {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.onafterprint = () => frame.remove();
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,33 @@
+// 两侧相互对应的行号 [lineA, lineB]，取自每段相同内容的起止位置，两个分量都单调不减
+export type LineAnchor = [lineA: number, lineB: number];
+
+/**
+ * 按锚点分段线性插值，把一侧的（小数）行号换算为另一侧的行号。
+ * 一侧插入的整段内容在另一侧只对应一个点，因此滚动插入内容时另一侧保持不动。
+ */
+export const mapAlignedLine = (
+  anchors: LineAnchor[],
+  line: number,
+  from: "A" | "B",
+): number => {
+  if (anchors.length === 0) return line;
+  const src = from === "A" ? 0 : 1;
+  const dst = 1 - src;
+
+  // 最后一个不超过 line 的锚点
+  let lo = 0;
+  let hi = anchors.length - 1;
+  if (line < anchors[0][src]) return line - anchors[0][src] + anchors[0][dst];
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (anchors[mid][src] <= line) lo = mid;
+    else hi = mid - 1;
+  }
+
+  const current = anchors[lo];
+  const next = anchors[lo + 1];
+  if (!next) return current[dst] + (line - current[src]);
+
+  const ratio = (line - current[src]) / (next[src] - current[src]);
+  return current[dst] + ratio * (next[dst] - current[dst]);
+};
@@ -0,0 +1,396 @@
+import { DomUtils, ElementType, parseDocument } from "htmlparser2";
+import { marked } from "marked";
+import {
+  assembleBlocks,
+  createBlockPaths,
+  joinPath,
+  tableCellLabels,
+  type CollectedBlock,
+} from "./block-structure";
+import { PLAIN_FORMAT, type FormatRun, type TextFormat } from "./text-format";
+
+export type MarkupSyntax = "markdown" | "html";
+
+export type MarkupBlockKind =
+  | "paragraph"
+  | "heading"
+  | "list-item"
+  | "table-cell"
+  | "code"
+  | "quote";
+
+export interface MarkupBlock {
+  kind: MarkupBlockKind;
+  path: string; // 如“第 2 章 › 列表 1 › 第 3 项”“第 1 章 › 代码块 2”
+  level?: number; // 标题级别，或列表项的嵌套深度（从 1 开始）
+  marker?: string; // 列表项的符号，如“•”“3.”
+}
+
+// 与 Word 文档相同的结构化文本：每个块占一行或多行（代码块按原样分行）
+export interface MarkupDocumentText {
+  syntax: MarkupSyntax;
+  text: string;
+  blocks: MarkupBlock[];
+  lineRefs: number[];
+  formats: FormatRun[]; // 行内标记（加粗、代码、链接等）对应的格式
+}
+
+type DomNode = ReturnType<typeof parseDocument>["children"][number];
+type DomElement = Extract<DomNode, { attribs: Record<string, string> }>;
+
+const isElement = (node: DomNode): node is DomElement =>
+  ElementType.isTag(node);
+
+// 不属于正文的元素
+const SKIPPED_TAGS = new Set([
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "img",
+]);
+
+// 块级元素；其余元素按行内元素处理，内容并入所在段落
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "caption",
+  "dd",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "html",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "summary",
+  "table",
+  "ul",
+]);
+
+const MONOSPACE_FONT = "等宽字体";
+
+// 行内元素对应的格式
+const inlineFormat = (
+  element: DomElement,
+  format: TextFormat,
+): TextFormat => {
+  switch (element.name) {
+    case "strong":
+    case "b":
+      return { ...format, bold: true };
+    case "em":
+    case "i":
+    case "cite":
+    case "dfn":
+    case "var":
+      return { ...format, italic: true };
+    case "u":
+    case "ins":
+      return { ...format, underline: true };
+    case "del":
+    case "s":
+    case "strike":
+      return { ...format, strikethrough: true };
+    case "code":
+    case "kbd":
+    case "samp":
+    case "tt":
+      return { ...format, font: MONOSPACE_FONT };
+    case "mark":
+      return { ...format, highlight: "yellow" };
+    case "a":
+      return element.attribs.href
+        ? { ...format, link: element.attribs.href }
+        : format;
+    default:
+      return format;
+  }
+};
+
+interface InlineText {
+  text: string;
+  runs: FormatRun[];
+}
+
+const clipRuns = (content: InlineText) => {
+  content.runs = content.runs
+    .map((run) => ({
+      ...run,
+      end: Math.min(run.end, content.text.length),
+    }))
+    .filter((run) => run.end > run.start);
+};
+
+// 按 HTML 的规则合并空白：连续空白成为一个空格，行首的空格去掉
+const appendText = (
+  content: InlineText,
+  value: string,
+  format: TextFormat,
+) => {
+  let text = value.replace(/[ \t\r\n\f]+/g, " ");
+  if (!content.text || /[ \n]$/.test(content.text)) {
+    text = text.replace(/^ /, "");
+  }
+  if (!text) return;
+  content.runs.push({
+    start: content.text.length,
+    end: content.text.length + text.length,
+    format,
+  });
+  content.text += text;
+};
+
+const appendLineBreak = (content: InlineText) => {
+  content.text = content.text.replace(/ +$/, "");
+  clipRuns(content);
+  content.text += "\n";
+};
+
+const finishInline = (content: InlineText) => {
+  content.text = content.text.replace(/\s+$/, "");
+  clipRuns(content);
+  return content;
+};
+
+const collectInline = (
+  node: DomNode,
+  content: InlineText,
+  format: TextFormat,
+) => {
+  if (node.type === ElementType.Text) {
+    appendText(content, node.data, format);
+    return;
+  }
+  if (!isElement(node) || SKIPPED_TAGS.has(node.name)) return;
+  if (node.name === "br") {
+    appendLineBreak(content);
+    return;
+  }
+  // GFM 任务列表的复选框
+  if (node.name === "input" && node.attribs.type === "checkbox") {
+    appendText(
+      content,
+      "checked" in node.attribs ? "[x] " : "[ ] ",
+      PLAIN_FORMAT,
+    );
+    return;
+  }
+  const childFormat = inlineFormat(node, format);
+  node.children.forEach((child) => collectInline(child, content, childFormat));
+};
+
+// 表格单元格、引用中的块都记为所在的单元格或引用
+interface Container {
+  kind: MarkupBlockKind;
+  path: string;
+  tables: number;
+}
+
+const collectBlocks = (nodes: DomNode[]) => {
+  const blocks: CollectedBlock<MarkupBlock>[] = [];
+  const paths = createBlockPaths();
+
+  // path 只在块有内容时才生成，避免空段落占用编号
+  const emit = (
+    content: InlineText,
+    container: Container | undefined,
+    kind: MarkupBlockKind,
+    path: () => string,
+    extra?: Partial<MarkupBlock>,
+  ) => {
+    const { text, runs } = finishInline(content);
+    if (!text.trim()) return;
+    const block: MarkupBlock = container
+      ? { kind: container.kind, path: container.path }
+      : { kind, path: path(), ...extra };
+    blocks.push({ block, text, runs });
+  };
+
+  // 块级元素之间的行内内容组成匿名段落
+  const visitFlow = (children: DomNode[], container?: Container) => {
+    let pending: InlineText = { text: "", runs: [] };
+    const flush = () => {
+      emit(pending, container, "paragraph", paths.paragraph);
+      pending = { text: "", runs: [] };
+    };
+    for (const child of children) {
+      if (isElement(child) && BLOCK_TAGS.has(child.name)) {
+        flush();
+        visitBlock(child, container);
+      } else {
+        collectInline(child, pending, PLAIN_FORMAT);
+      }
+    }
+    flush();
+  };
+
+  // 列表项自身的文字为一块，嵌套的列表接着编号（与 Word 的多级列表一致）
+  const visitList = (
+    list: DomElement,
+    depth: number,
+    container?: Container,
+  ) => {
+    const ordered = list.name === "ol";
+    let number = Number(list.attribs.start ?? 1) || 1;
+    for (const item of list.children) {
+      if (!isElement(item) || item.name !== "li") continue;
+      const marker = ordered ? `${number++}.` : "•";
+      let content: InlineText = { text: "", runs: [] };
+      const flushItem = () => {
+        emit(content, container, "list-item", paths.listItem, {
+          level: depth,
+          marker,
+        });
+        content = { text: "", runs: [] };
+      };
+      for (const child of item.children) {
+        if (!isElement(child) || !BLOCK_TAGS.has(child.name)) {
+          collectInline(child, content, PLAIN_FORMAT);
+        } else if (child.name === "p") {
+          // 松散列表中项的各段落
+          if (content.text.trim()) appendLineBreak(content);
+          child.children.forEach((node) =>
+            collectInline(node, content, PLAIN_FORMAT),
+          );
+        } else if (child.name === "ul" || child.name === "ol") {
+          flushItem();
+          visitList(child, depth + 1, container);
+        } else {
+          flushItem();
+          visitBlock(child, container);
+        }
+      }
+      flushItem();
+    }
+    if (depth === 1) paths.endList();
+  };
+
+  const visitTable = (table: DomElement, tablePath: string) => {
+    const rows: DomElement[] = [];
+    const findRows = (element: DomElement) =>
+      element.children.filter(isElement).forEach((child) => {
+        if (child.name === "tr") rows.push(child);
+        else if (["thead", "tbody", "tfoot"].includes(child.name)) {
+          findRows(child);
+        }
+      });
+    findRows(table);
+
+    const cells = rows.map((row) =>
+      row.children
+        .filter(isElement)
+        .filter((cell) => cell.name === "td" || cell.name === "th"),
+    );
+    const labels = tableCellLabels(
+      cells.map((rowCells) =>
+        rowCells.map((cell) => ({
+          colSpan: Number(cell.attribs.colspan) || 1,
+          rowSpan: Number(cell.attribs.rowspan) || 1,
+        })),
+      ),
+    );
+    cells.forEach((rowCells, rowIdx) =>
+      rowCells.forEach((cell, idx) =>
+        visitFlow(cell.children, {
+          kind: "table-cell",
+          path: joinPath(tablePath, labels[rowIdx][idx]),
+          tables: 0,
+        }),
+      ),
+    );
+  };
+
+  const visitBlock = (element: DomElement, container?: Container) => {
+    const heading = /^h([1-6])$/.exec(element.name);
+    if (heading) {
+      const level = Number(heading[1]);
+      const content: InlineText = { text: "", runs: [] };
+      element.children.forEach((child) =>
+        collectInline(child, content, PLAIN_FORMAT),
+      );
+      emit(content, container, "heading", () => paths.heading(level), {
+        level,
+      });
+      return;
+    }
+
+    switch (element.name) {
+      case "hr":
+        return;
+      case "ul":
+      case "ol":
+        visitList(element, 1, container);
+        return;
+      case "pre": {
+        // 代码块保留原有的换行和缩进
+        const text = DomUtils.textContent(element).replace(/\n$/, "");
+        const content = { text, runs: [] };
+        emit(content, container, "code", paths.codeBlock);
+        return;
+      }
+      case "blockquote":
+        visitFlow(
+          element.children,
+          container ?? { kind: "quote", path: paths.quote(), tables: 0 },
+        );
+        return;
+      case "table":
+        if (container) {
+          container.tables++;
+          visitTable(
+            element,
+            joinPath(container.path, `表 ${container.tables}`),
+          );
+        } else {
+          visitTable(element, paths.table());
+        }
+        return;
+      default:
+        visitFlow(element.children, container);
+    }
+  };
+
+  visitFlow(nodes);
+  return blocks;
+};
+
+/**
+ * 把 Markdown 或 HTML 解析为块结构：标题、段落、列表项、表格单元格、代码块、引用各自成块。
+ * Markdown 先渲染为 HTML，因此两者的结构一致；同样渲染结果的不同写法（如 * 与 _）不产生差异，
+ * 行内标记的变化（如取消加粗、修改链接）作为格式差异报告。
+ */
+export const extractMarkupStructure = (
+  source: string,
+  syntax: MarkupSyntax,
+): MarkupDocumentText => {
+  const html =
+    syntax === "markdown" ? marked.parse(source, { async: false }) : source;
+  const document = parseDocument(html);
+  return { syntax, ...assembleBlocks(collectBlocks(document.children)) };
+};
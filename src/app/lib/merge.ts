@@ -0,0 +1,49 @@
+export type ReviewDecision = "accepted" | "rejected";
+
+// 合并用的原文片段：带 id 的是一处差异，接受时取 textB，否则保留 textA
+export interface MergeChunk {
+  id?: number;
+  textA: string;
+  textB: string;
+}
+
+/**
+ * 把单侧差异文本按非空行切开，与逐行生成的差异 id 一一对应。
+ * 行间的换行归属于前一行，这样接受/拒绝某一行时换行随之增删。
+ */
+export const splitByLineIds = (
+  text: string,
+  ids: number[],
+): { id?: number; text: string }[] => {
+  const pieces: { id?: number; text: string }[] = [];
+  let prefix = "";
+
+  text.split("\n").forEach((part, idx, parts) => {
+    const sep = idx < parts.length - 1 ? "\n" : "";
+    if (part.length > 0) {
+      pieces.push({ id: ids[pieces.length], text: prefix + part + sep });
+      prefix = "";
+    } else if (pieces.length > 0) {
+      pieces[pieces.length - 1].text += sep;
+    } else {
+      prefix += sep;
+    }
+  });
+
+  // 只有换行的差异没有对应的差异条目
+  if (prefix) pieces.push({ text: prefix });
+  return pieces;
+};
+
+// 根据审阅结果生成合并文本；未处理的差异按拒绝处理，保留原始版本
+export const buildMergedText = (
+  chunks: MergeChunk[],
+  decisions: Record<number, ReviewDecision>,
+): string =>
+  chunks
+    .map((chunk) =>
+      chunk.id !== undefined && decisions[chunk.id] === "accepted"
+        ? chunk.textB
+        : chunk.textA,
+    )
+    .join("");
@@ -0,0 +1,199 @@
+import DiffMatchPatch from "diff-match-patch";
+import type { AlignedDiff } from "./normalize";
+
+// 去掉首尾空白后不足这个长度的片段不参与移动检测，避免把零散的字词当成移动
+const MIN_MOVE_LENGTH = 16;
+// 删除与新增文本的相似度（1 - 编辑距离 / 较长文本长度）达到该值才视为移动
+const MOVE_SIMILARITY = 0.8;
+// 候选两两比较，数量过多时只保留每侧最长的若干片段
+const MAX_CANDIDATES = 200;
+// 单次相似度计算与两两比较的总耗时上限（秒），超时后不再寻找新的配对
+const SIMILARITY_TIMEOUT = 0.05;
+const MOVE_BUDGET = 1;
+
+export interface DetectedMove {
+  from: number; // 删除项在 diffs 中的下标（原位置）
+  to: number; // 新增项在 diffs 中的下标（新位置）
+  // 原位置文本 → 新位置文本的字符级差异，即移动块内的小改动
+  edits: DiffMatchPatch.Diff[];
+  editCount: number;
+}
+
+// 移动块在某一侧的文本，按是否属于块内改动切分
+export interface MoveRun {
+  text: string;
+  edited: boolean;
+}
+
+export interface MoveDetection {
+  diffs: AlignedDiff[]; // 移动块对齐到行边界后的 diff
+  moves: DetectedMove[];
+}
+
+interface Candidate {
+  index: number;
+  text: string; // 去掉首尾空白后的文本，用于计算相似度
+}
+
+const collectCandidates = (diffs: AlignedDiff[], op: -1 | 1) => {
+  const candidates: Candidate[] = [];
+  diffs.forEach(([type, textA, textB], index) => {
+    if (type !== op) return;
+    const text = (op === -1 ? textA : textB).trim();
+    if (text.length >= MIN_MOVE_LENGTH) candidates.push({ index, text });
+  });
+  if (candidates.length <= MAX_CANDIDATES) return candidates;
+  return candidates
+    .sort((a, b) => b.text.length - a.text.length)
+    .slice(0, MAX_CANDIDATES);
+};
+
+// 连续的非相等片段算一处改动，只改了空白的不计
+const countEdits = (edits: DiffMatchPatch.Diff[]) => {
+  let count = 0;
+  let inEdit = false;
+  let meaningful = false;
+  for (const [op, text] of edits) {
+    if (op === 0) {
+      if (inEdit && meaningful) count++;
+      inEdit = false;
+      meaningful = false;
+    } else {
+      inEdit = true;
+      meaningful ||= text.trim().length > 0;
+    }
+  }
+  return inEdit && meaningful ? count + 1 : count;
+};
+
+// 删除与新增之间没有相等片段时是原地修改，不算移动
+const isAdjacent = (diffs: AlignedDiff[], a: number, b: number) => {
+  for (let k = Math.min(a, b) + 1; k < Math.max(a, b); k++) {
+    if (diffs[k][0] === 0) return false;
+  }
+  return true;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let n = 0;
+  const max = Math.min(a.length, b.length);
+  while (n < max && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+};
+
+/**
+ * 逐字符 diff 常把段首与相邻段落共有的字算作相等，移动块因此错开一两个字。
+ * 与 diff_cleanupSemanticLossless 的做法相同，在两侧相等片段之间滑动该块，
+ * 优先停在行首。归一化后的相等片段两侧原文不同，不能滑动。
+ */
+const alignToLines = (diffs: AlignedDiff[], index: number) => {
+  const prev = diffs[index - 1];
+  const next = diffs[index + 1];
+  if (!prev || !next || prev[0] !== 0 || next[0] !== 0) return;
+  if (prev[1] !== prev[2] || next[1] !== next[2]) return;
+
+  const [op, textA, textB] = diffs[index];
+  let before = prev[1];
+  let edit = op === -1 ? textA : textB;
+  let after = next[1];
+
+  // 先尽量左移，再逐字右移并记录得分最高的位置
+  const shift = commonSuffixLength(before, edit);
+  if (shift > 0) {
+    const common = edit.slice(edit.length - shift);
+    before = before.slice(0, before.length - shift);
+    edit = common + edit.slice(0, edit.length - shift);
+    after = common + after;
+  }
+
+  const score = () =>
+    (before === "" || before.endsWith("\n") ? 2 : 0) +
+    (edit.endsWith("\n") ? 1 : 0);
+  let best = { before, edit, after, score: score() };
+  while (edit && after && edit[0] === after[0]) {
+    before += edit[0];
+    edit = edit.slice(1) + after[0];
+    after = after.slice(1);
+    if (score() > best.score) best = { before, edit, after, score: score() };
+  }
+
+  diffs[index - 1] = [0, best.before, best.before];
+  diffs[index] = op === -1 ? [op, best.edit, ""] : [op, "", best.edit];
+  diffs[index + 1] = [0, best.after, best.after];
+};
+
+/**
+ * 在 diff 结果中查找被移动的段落：成对比较足够长且不相邻的删除与新增片段，
+ * 相似度最高的优先配对，每个片段最多参与一次移动。
+ */
+export const detectMoves = (input: AlignedDiff[]): MoveDetection => {
+  const deletions = collectCandidates(input, -1);
+  const insertions = collectCandidates(input, 1);
+  if (deletions.length === 0 || insertions.length === 0) {
+    return { diffs: input, moves: [] };
+  }
+
+  const dmp = new DiffMatchPatch();
+  // 相似度只需大致准确，单次计算用更短的超时
+  const similarityDmp = new DiffMatchPatch();
+  similarityDmp.Diff_Timeout = SIMILARITY_TIMEOUT;
+  const deadline = Date.now() + MOVE_BUDGET * 1000;
+  const pairs: { from: Candidate; to: Candidate; similarity: number }[] = [];
+
+  for (const from of deletions) {
+    if (Date.now() > deadline) break;
+    for (const to of insertions) {
+      if (Date.now() > deadline) break;
+      if (isAdjacent(input, from.index, to.index)) continue;
+      const longest = Math.max(from.text.length, to.text.length);
+      // 编辑距离不小于长度差，长度相差过大时无需计算
+      const lengthGap = Math.abs(from.text.length - to.text.length);
+      if (lengthGap > longest * (1 - MOVE_SIMILARITY)) continue;
+      const textDiffs = similarityDmp.diff_main(from.text, to.text, false);
+      const similarity =
+        1 - similarityDmp.diff_levenshtein(textDiffs) / longest;
+      if (similarity >= MOVE_SIMILARITY) pairs.push({ from, to, similarity });
+    }
+  }
+
+  pairs.sort((a, b) => b.similarity - a.similarity);
+  const used = new Set<number>();
+  const moves: DetectedMove[] = [];
+  const diffs = [...input];
+
+  for (const { from, to } of pairs) {
+    if (used.has(from.index) || used.has(to.index)) continue;
+    used.add(from.index);
+    used.add(to.index);
+    alignToLines(diffs, from.index);
+    alignToLines(diffs, to.index);
+    // 块内改动在完整文本上计算，拼接后与两侧原文一致
+    const edits = dmp.diff_main(diffs[from.index][1], diffs[to.index][2]);
+    dmp.diff_cleanupSemantic(edits);
+    moves.push({
+      from: from.index,
+      to: to.index,
+      edits,
+      editCount: countEdits(edits),
+    });
+  }
+
+  return { diffs, moves: moves.sort((a, b) => a.from - b.from) };
+};
+
+// 原位置（from）的文本由相等与删除部分组成，新位置（to）由相等与新增部分组成
+export const moveRuns = (
+  move: DetectedMove,
+  side: "from" | "to",
+): MoveRun[] => {
+  const editOp = side === "from" ? -1 : 1;
+  const runs: MoveRun[] = [];
+  for (const [op, text] of move.edits) {
+    if (op !== 0 && op !== editOp) continue;
+    const edited = op !== 0;
+    const last = runs[runs.length - 1];
+    if (last && last.edited === edited) last.text += text;
+    else runs.push({ text, edited });
+  }
+  return runs;
+};
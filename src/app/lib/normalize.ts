@@ -0,0 +1,220 @@
+import type DiffMatchPatch from "diff-match-patch";
+import { CJK_RE } from "./text-utils";
+
+export interface NormalizeOptions {
+  ignoreWhitespace: boolean;
+  ignoreCase: boolean;
+  ignorePunctuation: boolean;
+  ignoreWidth: boolean; // 全角/半角
+  ignoreLineBreaks: boolean;
+}
+
+export const DEFAULT_NORMALIZE_OPTIONS: NormalizeOptions = {
+  ignoreWhitespace: false,
+  ignoreCase: false,
+  ignorePunctuation: false,
+  ignoreWidth: false,
+  ignoreLineBreaks: false,
+};
+
+export const NORMALIZE_OPTION_LABELS: Record<
+  keyof NormalizeOptions,
+  string
+> = {
+  ignoreWhitespace: "忽略空白",
+  ignoreCase: "忽略大小写",
+  ignorePunctuation: "忽略标点",
+  ignoreWidth: "忽略全角/半角",
+  ignoreLineBreaks: "忽略换行",
+};
+
+// 归一化后的文本；starts/ends 记录每个字符（UTF-16 码元）对应的原文区间
+export interface NormalizedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+// 对齐到原文的差异：相等片段两侧原文可能不同（例如大小写不同）
+export type AlignedDiff = [op: -1 | 0 | 1, textA: string, textB: string];
+
+const PUNCTUATION_RE = /\p{P}/u;
+
+// 常见的全角中文标点，不在 FF01–FF5E 区间内
+const WIDTH_MAP: Record<string, string> = {
+  "\u3000": " ",
+  "。": ".",
+  "、": ",",
+  "“": '"',
+  "”": '"',
+  "‘": "'",
+  "’": "'",
+};
+
+const toHalfWidth = (ch: string) => {
+  const code = ch.charCodeAt(0);
+  if (code >= 0xff01 && code <= 0xff5e) {
+    return String.fromCharCode(code - 0xfee0);
+  }
+  return WIDTH_MAP[ch] ?? ch;
+};
+
+// 先后做两次归一化时，把第二次的位置经第一次换算回原文
+export const composeNormalized = (
+  inner: NormalizedText,
+  outer: NormalizedText,
+): NormalizedText => ({
+  text: outer.text,
+  starts: outer.starts.map((start) => inner.starts[start]),
+  ends: outer.ends.map((end) => inner.ends[end - 1]),
+});
+
+// 只看归一化选项本身：传入的常是包含粒度等其他字段的对比选项
+export const hasNormalization = (options: NormalizeOptions) =>
+  (Object.keys(DEFAULT_NORMALIZE_OPTIONS) as (keyof NormalizeOptions)[]).some(
+    (key) => options[key],
+  );
+
+export const normalizeText = (
+  text: string,
+  options: NormalizeOptions,
+): NormalizedText => {
+  const result: NormalizedText = { text: "", starts: [], ends: [] };
+
+  const emit = (out: string, start: number, end: number) => {
+    for (let k = 0; k < out.length; k++) {
+      result.starts.push(start);
+      result.ends.push(end);
+    }
+    result.text += out;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    // 换行连同两侧空白视为一个整体：中文之间直接去掉，其余折叠为一个空格
+    if (options.ignoreLineBreaks && /\s/.test(text[i])) {
+      let j = i;
+      while (j < text.length && /\s/.test(text[j])) j++;
+      const run = text.slice(i, j);
+      if (run.includes("\n")) {
+        const prev = text[i - 1] ?? "";
+        const next = text[j] ?? "";
+        if (!(CJK_RE.test(prev) || CJK_RE.test(next))) {
+          if (!options.ignoreWhitespace) emit(" ", i, j);
+        }
+        i = j;
+        continue;
+      }
+    }
+
+    const codePoint = text.codePointAt(i)!;
+    const end = i + (codePoint > 0xffff ? 2 : 1);
+    let ch = text.slice(i, end);
+
+    if (ch !== "\n" && /\s/.test(ch) && options.ignoreWhitespace) {
+      i = end;
+      continue;
+    }
+    if (options.ignoreWidth) ch = toHalfWidth(ch);
+    if (options.ignorePunctuation && PUNCTUATION_RE.test(ch)) {
+      i = end;
+      continue;
+    }
+    if (options.ignoreCase) ch = ch.toLowerCase();
+
+    emit(ch, i, end);
+    i = end;
+  }
+
+  return result;
+};
+
+/**
+ * 把在归一化文本上得到的 diff 映射回原文。
+ * 被归一化去掉的字符（如空白、标点）不参与高亮：
+ * 相等片段会吞并其前方被去掉的字符，增删片段前方的则单独作为相等片段输出。
+ */
+export const alignDiffs = (
+  diffs: DiffMatchPatch.Diff[],
+  originalA: string,
+  normA: NormalizedText,
+  originalB: string,
+  normB: NormalizedText,
+): AlignedDiff[] => {
+  const aligned: AlignedDiff[] = [];
+  let nA = 0;
+  let nB = 0;
+  let posA = 0;
+  let posB = 0;
+
+  const rangeEnd = (norm: NormalizedText, n: number, len: number) =>
+    norm.ends[n + len - 1];
+
+  for (let i = 0; i < diffs.length; i++) {
+    const [op, text] = diffs[i];
+
+    if (op === 0) {
+      const endA = rangeEnd(normA, nA, text.length);
+      const endB = rangeEnd(normB, nB, text.length);
+      aligned.push([
+        0,
+        originalA.slice(posA, endA),
+        originalB.slice(posB, endB),
+      ]);
+      posA = endA;
+      posB = endB;
+      nA += text.length;
+      nB += text.length;
+      continue;
+    }
+
+    // diff_main 的结果里，连续的增删片段中删除、新增各至多一个
+    let delText = "";
+    let insText = "";
+    while (i < diffs.length && diffs[i][0] !== 0) {
+      if (diffs[i][0] === -1) delText += diffs[i][1];
+      else insText += diffs[i][1];
+      i++;
+    }
+    i--;
+
+    const startA = delText ? normA.starts[nA] : posA;
+    const startB = insText ? normB.starts[nB] : posB;
+    if (startA > posA || startB > posB) {
+      aligned.push([
+        0,
+        originalA.slice(posA, startA),
+        originalB.slice(posB, startB),
+      ]);
+    }
+    posA = startA;
+    posB = startB;
+
+    if (delText) {
+      const endA = rangeEnd(normA, nA, delText.length);
+      aligned.push([-1, originalA.slice(posA, endA), ""]);
+      posA = endA;
+      nA += delText.length;
+    }
+    if (insText) {
+      const endB = rangeEnd(normB, nB, insText.length);
+      aligned.push([1, "", originalB.slice(posB, endB)]);
+      posB = endB;
+      nB += insText.length;
+    }
+  }
+
+  if (posA < originalA.length || posB < originalB.length) {
+    aligned.push([0, originalA.slice(posA), originalB.slice(posB)]);
+  }
+
+  return aligned;
+};
+
+// 未开启任何归一化时，diff 结果本身就是原文
+export const toAlignedDiffs = (diffs: DiffMatchPatch.Diff[]): AlignedDiff[] =>
+  diffs.map(([op, text]) => [
+    op as AlignedDiff[0],
+    op === 1 ? "" : text,
+    op === -1 ? "" : text,
+  ]);
@@ -0,0 +1,223 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import { CJK_RE } from "./text-utils";
+import { isNodeRuntime } from "./runtime";
+
+// 页面坐标（scale = 1 的视口单位，原点在左上角）
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfTextLine {
+  text: string;
+  boxes: PdfBox[]; // 与 text 中的字符一一对应
+}
+
+export interface PdfPageText {
+  pageNumber: number; // 1-based
+  width: number;
+  height: number;
+  lines: PdfTextLine[];
+}
+
+export interface PdfLineRef {
+  page: number; // 0-based index into pages
+  line: number; // 0-based index into pages[page].lines
+}
+
+export interface PdfDocumentText {
+  text: string;
+  pages: PdfPageText[];
+  // 全文按 \n 切分后的每一行对应的页内行；页间空行为 null
+  lineRefs: (PdfLineRef | null)[];
+}
+
+type PdfJs = typeof import("pdfjs-dist");
+
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+export const pdfWorkerSrc = () =>
+  new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+
+// Node.js 中使用不依赖 DOM 的 legacy 构建；worker 模块预先挂到 globalThis.pdfjsWorker，
+// pdf.js 会直接在主线程中使用它，不必再按文件路径加载（打包后路径会失效）
+const loadNodePdfJs = async (): Promise<PdfJs> => {
+  const [pdfjs, worker] = await Promise.all([
+    import("pdfjs-dist/legacy/build/pdf.mjs"),
+    import("pdfjs-dist/legacy/build/pdf.worker.mjs"),
+  ]);
+  (globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = worker;
+  return pdfjs as PdfJs;
+};
+
+// pdfjs-dist 依赖浏览器环境，按需加载并配置 worker，避免在 SSR 阶段被执行
+const loadPdfJs = (): Promise<PdfJs> => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = isNodeRuntime()
+      ? loadNodePdfJs()
+      : import("pdfjs-dist").then((pdfjs) => {
+          if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+            pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerSrc();
+          }
+          return pdfjs;
+        });
+  }
+  return pdfjsPromise;
+};
+
+const isTextItem = (item: object): item is TextItem => "str" in item;
+
+// 汉字、假名、全角标点之间不需要补空格
+const needsSpace = (prev: string, next: string) => {
+  const a = prev.slice(-1);
+  const b = next.charAt(0);
+  if (!a || !b || /\s/.test(a) || /\s/.test(b)) return false;
+  return !(CJK_RE.test(a) || CJK_RE.test(b));
+};
+
+// 已换算到视口坐标的文本片段，y 为基线位置
+export interface PdfTextRun {
+  str: string;
+  x: number;
+  y: number;
+  size: number;
+  width: number;
+}
+
+/**
+ * 按阅读顺序把一页的文本片段重建为行：
+ * 先按基线纵坐标聚类（容差取字号的一半），再在行内按横坐标排序，
+ * 片段间距明显大于 0 时补一个空格。每个字符的框按片段宽度均分。
+ */
+export const buildPageLines = (runs: PdfTextRun[]): PdfTextLine[] => {
+  type Row = { y: number; size: number; runs: PdfTextRun[] };
+  const rows: Row[] = [];
+
+  runs.forEach((run) => {
+    if (!run.str) return;
+    const row = rows.find(
+      (r) => Math.abs(r.y - run.y) <= Math.max(r.size, run.size) / 2,
+    );
+    if (row) {
+      row.runs.push(run);
+      row.size = Math.max(row.size, run.size);
+    } else {
+      rows.push({ y: run.y, size: run.size, runs: [run] });
+    }
+  });
+
+  rows.sort((a, b) => a.y - b.y);
+
+  return rows
+    .map((row) => {
+      const sorted = [...row.runs].sort((a, b) => a.x - b.x);
+      const top = row.y - row.size * 0.85;
+      const height = row.size * 1.1;
+      let text = "";
+      const boxes: PdfBox[] = [];
+      let prevEnd: number | null = null;
+
+      sorted.forEach((run) => {
+        const str = run.str.replace(/[\r\n]/g, " ");
+        if (
+          prevEnd !== null &&
+          run.x - prevEnd > row.size * 0.15 &&
+          needsSpace(text, str)
+        ) {
+          text += " ";
+          boxes.push({ x: prevEnd, y: top, width: run.x - prevEnd, height });
+        }
+        const charWidth = run.width / str.length;
+        for (let i = 0; i < str.length; i++) {
+          boxes.push({
+            x: run.x + charWidth * i,
+            y: top,
+            width: charWidth,
+            height,
+          });
+        }
+        text += str;
+        prevEnd = run.x + run.width;
+      });
+
+      const trimmed = text.replace(/\s+$/, "");
+      return { text: trimmed, boxes: boxes.slice(0, trimmed.length) };
+    })
+    .filter((line) => line.text.length > 0);
+};
+
+// 逐页提取 PDF 文本及字符位置，每完成一页回调一次进度
+export const extractPdfPages = async (
+  data: ArrayBuffer,
+  onProgress?: (ratio: number) => void,
+): Promise<PdfPageText[]> => {
+  const pdfjs = await loadPdfJs();
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(data),
+    // Node.js 中 pdf.js 的警告会写到标准输出，干扰命令行的输出
+    verbosity: isNodeRuntime() ? pdfjs.VerbosityLevel.ERRORS : undefined,
+  }).promise;
+
+  try {
+    const pages: PdfPageText[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const textContent = await page.getTextContent();
+
+      const runs = textContent.items.filter(isTextItem).map((item) => {
+        // 与 pdf.js 文本层相同的换算：文本矩阵 × 视口矩阵
+        const tx = pdfjs.Util.transform(viewport.transform, item.transform);
+        return {
+          str: item.str,
+          x: tx[4],
+          y: tx[5],
+          size: Math.hypot(tx[2], tx[3]) || item.height || 1,
+          width: item.width * viewport.scale,
+        };
+      });
+
+      pages.push({
+        pageNumber,
+        width: viewport.width,
+        height: viewport.height,
+        lines: buildPageLines(runs),
+      });
+      page.cleanup();
+      onProgress?.(pageNumber / doc.numPages);
+    }
+    return pages;
+  } finally {
+    await doc.destroy();
+  }
+};
+
+// 页内按行拼接，页与页之间空一行，同时记录每一行来自哪一页
+export const joinPdfPages = (pages: PdfPageText[]): PdfDocumentText => {
+  const lineRefs: (PdfLineRef | null)[] = [];
+
+  pages.forEach((page, pageIdx) => {
+    if (pageIdx > 0) lineRefs.push(null);
+    if (page.lines.length === 0) {
+      lineRefs.push(null);
+      return;
+    }
+    page.lines.forEach((_, lineIdx) => {
+      lineRefs.push({ page: pageIdx, line: lineIdx });
+    });
+  });
+
+  const text = pages
+    .map((page) => page.lines.map((line) => line.text).join("\n"))
+    .join("\n\n");
+
+  return { text, pages, lineRefs };
+};
+
+export const extractPdfText = async (
+  data: ArrayBuffer,
+  onProgress?: (ratio: number) => void,
+): Promise<PdfDocumentText> =>
+  joinPdfPages(await extractPdfPages(data, onProgress));
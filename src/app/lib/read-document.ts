@@ -0,0 +1,127 @@
+import { isCompoundFile } from "./cfb";
+import { extractDocText } from "./doc-text";
+import { extractDocxStructure, type DocxDocumentText } from "./docx-structure";
+import {
+  extractMarkupStructure,
+  type MarkupDocumentText,
+  type MarkupSyntax,
+} from "./markup-structure";
+import { extractPdfText, type PdfDocumentText } from "./pdf-text";
+import {
+  CODE_LANGUAGES,
+  extractSourceCode,
+  type SourceCodeText,
+} from "./source-code";
+import { decodeText } from "./text-encoding";
+
+export interface ParsedDocument {
+  text: string;
+  pdf?: PdfDocumentText;
+  docx?: DocxDocumentText;
+  markup?: MarkupDocumentText;
+  code?: SourceCodeText;
+}
+
+export const SUPPORTED_EXTENSIONS = [
+  "txt",
+  "md",
+  "markdown",
+  "html",
+  "htm",
+  "doc",
+  "docx",
+  "pdf",
+  ...Object.keys(CODE_LANGUAGES),
+];
+
+// 以文本形式存储、需要判断编码的格式
+export const TEXT_EXTENSIONS = [
+  "txt",
+  "md",
+  "markdown",
+  "html",
+  "htm",
+  "csv",
+  ...Object.keys(CODE_LANGUAGES),
+];
+
+const MARKUP_SYNTAX: Record<string, MarkupSyntax> = {
+  md: "markdown",
+  markdown: "markdown",
+  html: "html",
+  htm: "html",
+};
+
+// 按块提取了结构的文档（Word、Markdown、HTML）
+export const documentStructure = (doc: ParsedDocument) =>
+  doc.docx ?? doc.markup;
+
+export const fileExtension = (fileName: string) =>
+  fileName.split(".").pop()?.toLowerCase() ?? "";
+
+export const isSourceCodeFile = (fileName: string) =>
+  Object.hasOwn(CODE_LANGUAGES, fileExtension(fileName));
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const RTF_SIGNATURE = "{\\rtf";
+
+const startsWith = (data: ArrayBuffer, signature: number[]) => {
+  const length = Math.min(signature.length, data.byteLength);
+  const bytes = new Uint8Array(data, 0, length);
+  return signature.every((byte, idx) => bytes[idx] === byte);
+};
+
+/**
+ * 按文件内容而非扩展名判断 Word 文档的格式：
+ * 改了扩展名的 DOCX、Word 97-2003 二进制文档、以及加密文档（同为复合文档）分别处理。
+ */
+const readWordDocument = async (file: File): Promise<ParsedDocument> => {
+  const arrayBuffer = await file.arrayBuffer();
+  if (startsWith(arrayBuffer, ZIP_SIGNATURE)) {
+    const docx = await extractDocxStructure(arrayBuffer);
+    return { text: docx.text, docx };
+  }
+  if (isCompoundFile(arrayBuffer)) {
+    try {
+      return { text: extractDocText(arrayBuffer) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${file.name}：${message}`);
+    }
+  }
+  const head = new TextDecoder().decode(arrayBuffer.slice(0, 5));
+  if (head === RTF_SIGNATURE) {
+    throw new Error(
+      `${file.name} 实际是 RTF 格式，暂不支持，请在 Word 中另存为 DOCX 后再对比`,
+    );
+  }
+  throw new Error(`${file.name} 不是有效的 Word 文档，文件可能已损坏`);
+};
+
+// 读取文件内容；onProgress 以 0~1 报告解析进度（目前只有 PDF 按页报告）
+export const readFileContent = async (
+  file: File,
+  onProgress?: (ratio: number) => void,
+): Promise<ParsedDocument> => {
+  const fileType = fileExtension(file.name);
+
+  if (fileType === "txt") {
+    // 旧系统导出的文本常为 GBK、Big5 等编码，按内容检测后解码
+    return { text: decodeText(await file.arrayBuffer()).text };
+  } else if (Object.hasOwn(MARKUP_SYNTAX, fileType)) {
+    const { text } = decodeText(await file.arrayBuffer());
+    const markup = extractMarkupStructure(text, MARKUP_SYNTAX[fileType]);
+    return { text: markup.text, markup };
+  } else if (Object.hasOwn(CODE_LANGUAGES, fileType)) {
+    const { text } = decodeText(await file.arrayBuffer());
+    return { text, code: extractSourceCode(text, CODE_LANGUAGES[fileType]) };
+  } else if (fileType === "docx" || fileType === "doc") {
+    return readWordDocument(file);
+  } else if (fileType === "pdf") {
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await extractPdfText(arrayBuffer, onProgress);
+    return { text: pdf.text, pdf };
+  }
+
+  return { text: "" };
+};
@@ -0,0 +1,195 @@
+import type { DiffItem } from "./compare";
+import type { ReviewDecision } from "./merge";
+
+export interface DiffReportMeta {
+  fileNameA: string;
+  fileNameB: string;
+  generatedAt: Date;
+  decisions?: Record<number, ReviewDecision>;
+}
+
+const TYPE_LABELS: Record<DiffItem["type"], string> = {
+  addition: "新增",
+  deletion: "删除",
+  modification: "修改",
+  moved: "移动",
+  format: "格式",
+  conflict: "冲突",
+};
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  accepted: "已接受",
+  rejected: "已拒绝",
+};
+
+// 冲突只出现在三方合并中，有冲突时概要中才列出冲突数
+const hasConflict = (differences: DiffItem[]) =>
+  differences.some((diff) => diff.type === "conflict");
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const formatTimestamp = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+  `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+// 样式全部内联，导出的文件不依赖任何外部资源；@media print 用于另存为 PDF
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111827; background: #f9fafb; }
+  h1 { margin: 0 0 16px; font-size: 22px; }
+  .meta { margin: 0 0 16px; font-size: 13px; color: #4b5563; }
+  .meta td { padding: 2px 16px 2px 0; }
+  .summary { display: flex; gap: 12px; margin-bottom: 24px; }
+  .summary div { padding: 8px 16px; border: 1px solid #e5e7eb; border-radius: 8px; background: #fff; font-size: 13px; }
+  .summary strong { display: block; font-size: 20px; }
+  .item { margin-bottom: 12px; padding: 16px; border: 1px solid #e5e7eb; border-radius: 8px; background: #fff; page-break-inside: avoid; break-inside: avoid; }
+  .item-head { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; font-size: 13px; }
+  .item-head .id { font-weight: 600; }
+  .item-head .position { color: #6b7280; }
+  .item-head .decision { margin-left: auto; color: #374151; }
+  .badge { padding: 1px 8px; border-radius: 4px; font-size: 12px; }
+  .badge.addition { background: #dcfce7; color: #166534; }
+  .badge.deletion { background: #fee2e2; color: #991b1b; }
+  .badge.modification { background: #fef9c3; color: #854d0e; }
+  .badge.moved { background: #dbeafe; color: #1e40af; }
+  .badge.format { background: #f3e8ff; color: #6b21a8; }
+  .item-head .format-change { color: #7e22ce; }
+  .badge.conflict { background: #ffedd5; color: #9a3412; }
+  .sides { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+  .side-label { margin-bottom: 4px; font-size: 12px; color: #6b7280; }
+  .excerpt { padding: 8px; border-radius: 4px; font-size: 13px; white-space: pre-wrap; word-break: break-word; }
+  .excerpt.a { background: #fef2f2; border: 1px solid #fecaca; }
+  .excerpt.a del { color: #b91c1c; }
+  .excerpt.b { background: #f0fdf4; border: 1px solid #bbf7d0; }
+  .excerpt.b ins { color: #15803d; text-decoration: underline; }
+  .empty { color: #9ca3af; font-style: italic; }
+  @media print {
+    @page { size: A4; margin: 16mm; }
+    body { padding: 0; background: #fff; }
+    .item, .summary div { border-color: #d1d5db; }
+    * { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+const renderExcerpt = (text: string, tag: "del" | "ins") =>
+  text
+    ? `<${tag}>${escapeHtml(text)}</${tag}>`
+    : `<span class="empty">（无）</span>`;
+
+/**
+ * 生成独立的 HTML 差异报告：文件名、生成时间、统计以及每一处差异的左右对照。
+ * 浏览器打印时套用 @media print 样式，可直接另存为 PDF。
+ */
+export const buildHtmlReport = (
+  differences: DiffItem[],
+  meta: DiffReportMeta,
+): string => {
+  const count = (type: DiffItem["type"]) =>
+    differences.filter((diff) => diff.type === type).length;
+  const title = `差异报告 - ${meta.fileNameA} / ${meta.fileNameB}`;
+
+  const items = differences
+    .map((diff) => {
+      const decision = meta.decisions?.[diff.id];
+      return `
+    <div class="item">
+      <div class="item-head">
+        <span class="id">#${diff.id}</span>
+        <span class="badge ${diff.type}">${TYPE_LABELS[diff.type]}</span>
+        <span class="position">${escapeHtml(diff.position)}</span>
+        ${diff.formatChange ? `<span class="format-change">${escapeHtml(diff.formatChange)}</span>` : ""}
+        ${decision ? `<span class="decision">${DECISION_LABELS[decision]}</span>` : ""}
+      </div>
+      <div class="sides">
+        <div>
+          <div class="side-label">文档 A</div>
+          <div class="excerpt a">${renderExcerpt(diff.textA, "del")}</div>
+        </div>
+        <div>
+          <div class="side-label">文档 B</div>
+          <div class="excerpt b">${renderExcerpt(diff.textB, "ins")}</div>
+        </div>
+      </div>
+    </div>`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>差异报告</h1>
+  <table class="meta">
+    <tr><td>文档 A</td><td>${escapeHtml(meta.fileNameA)}</td></tr>
+    <tr><td>文档 B</td><td>${escapeHtml(meta.fileNameB)}</td></tr>
+    <tr><td>生成时间</td><td>${formatTimestamp(meta.generatedAt)}</td></tr>
+  </table>
+  <div class="summary">
+    <div><strong>${differences.length}</strong>差异总数</div>
+    <div><strong>${count("addition")}</strong>新增</div>
+    <div><strong>${count("deletion")}</strong>删除</div>
+    <div><strong>${count("modification")}</strong>修改</div>
+    <div><strong>${count("moved")}</strong>移动</div>
+    <div><strong>${count("format")}</strong>格式</div>
+    ${hasConflict(differences) ? `<div><strong>${count("conflict")}</strong>冲突</div>` : ""}
+  </div>${items}
+</body>
+</html>
+`;
+};
+
+// Markdown 表格单元格中不能出现竖线和换行
+const escapeMarkdownCell = (text: string) =>
+  text ? text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>") : "（无）";
+
+// Markdown 版本的差异报告，便于贴到工单或代码评审中
+export const buildMarkdownReport = (
+  differences: DiffItem[],
+  meta: DiffReportMeta,
+): string => {
+  const count = (type: DiffItem["type"]) =>
+    differences.filter((diff) => diff.type === type).length;
+
+  const conflictColumn = hasConflict(differences);
+
+  const lines = [
+    "# 差异报告",
+    "",
+    `- 文档 A：${meta.fileNameA}`,
+    `- 文档 B：${meta.fileNameB}`,
+    `- 生成时间：${formatTimestamp(meta.generatedAt)}`,
+    "",
+    "| 差异总数 | 新增 | 删除 | 修改 | 移动 | 格式 |" +
+      (conflictColumn ? " 冲突 |" : ""),
+    "| --- | --- | --- | --- | --- | --- |" + (conflictColumn ? " --- |" : ""),
+    `| ${differences.length} | ${count("addition")} | ${count("deletion")} | ${count("modification")} | ${count("moved")} | ${count("format")} |` +
+      (conflictColumn ? ` ${count("conflict")} |` : ""),
+  ];
+
+  differences.forEach((diff) => {
+    const decision = meta.decisions?.[diff.id];
+    lines.push(
+      "",
+      `## #${diff.id} ${TYPE_LABELS[diff.type]} · ${diff.position}` +
+        (diff.formatChange ? ` · ${diff.formatChange}` : "") +
+        (decision ? `（${DECISION_LABELS[decision]}）` : ""),
+      "",
+      "| 文档 A | 文档 B |",
+      "| --- | --- |",
+      `| ${escapeMarkdownCell(diff.textA)} | ${escapeMarkdownCell(diff.textB)} |`,
+    );
+  });
+
+  return lines.join("\n") + "\n";
+};
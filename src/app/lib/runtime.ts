@@ -0,0 +1,5 @@
+// 运行在 Node.js（API 路由、命令行）而非浏览器或 Web Worker 中
+export const isNodeRuntime = () =>
+  typeof window === "undefined" &&
+  typeof process !== "undefined" &&
+  !!process.versions?.node;
@@ -0,0 +1,183 @@
+import type { CompareOptions, ComparisonResult } from "./compare";
+import type { ReviewDecision } from "./merge";
+import type { ParsedDocument } from "./read-document";
+
+// 一次对比会话：上传的文件与审阅状态，列表与更新都只涉及这一部分
+export interface ComparisonSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  fileA: File; // 当前对比的两个版本
+  fileB: File;
+  // 多版本对比：按顺序上传的全部版本，以及 fileA/fileB 在其中的下标
+  versions?: File[];
+  pair?: [number, number];
+  differenceCount?: number;
+  decisions: Record<number, ReviewDecision>;
+  selectedDiffId?: number;
+}
+
+// 对比结果体积较大（含解析后的全文与 PDF 字符框），单独存放，只在打开会话时读取
+export interface SessionSnapshot {
+  options: CompareOptions;
+  docA: ParsedDocument;
+  docB: ParsedDocument;
+  result: ComparisonResult;
+}
+
+export type SessionPatch = Partial<
+  Pick<
+    ComparisonSession,
+    | "name"
+    | "fileA"
+    | "fileB"
+    | "pair"
+    | "differenceCount"
+    | "decisions"
+    | "selectedDiffId"
+  >
+>;
+
+const DB_NAME = "textora";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const SNAPSHOTS = "snapshots";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("当前环境不支持 IndexedDB"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          db.createObjectStore(SESSIONS, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) {
+          db.createObjectStore(SNAPSHOTS);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 打开失败（如隐私模式）后允许下次重试
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// 在一个事务中执行操作，事务提交后才返回结果
+const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => Promise<T>,
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  try {
+    const result = await run(tx);
+    await done;
+    return result;
+  } catch (error) {
+    // 回调出错时事务随后也可能失败，接住 done 的拒绝，只抛出最先的错误
+    done.catch(() => {});
+    throw error;
+  }
+};
+
+const newId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// files 为按顺序排列的版本，至少两个；超过两个时默认对比前两个版本
+export const createSession = (
+  files: File[],
+): Promise<ComparisonSession> => {
+  const now = Date.now();
+  const last = files[files.length - 1];
+  const session: ComparisonSession = {
+    id: newId(),
+    name:
+      files.length > 2
+        ? `${files[0].name} → ${last.name}（${files.length} 个版本）`
+        : `${files[0].name} / ${last.name}`,
+    createdAt: now,
+    updatedAt: now,
+    fileA: files[0],
+    fileB: files[1],
+    decisions: {},
+    ...(files.length > 2 && { versions: files, pair: [0, 1] }),
+  };
+  return withStores([SESSIONS], "readwrite", async (tx) => {
+    await promisify(tx.objectStore(SESSIONS).add(session));
+    return session;
+  });
+};
+
+// 按最近更新时间倒序
+export const listSessions = (): Promise<ComparisonSession[]> =>
+  withStores([SESSIONS], "readonly", async (tx) => {
+    const sessions = await promisify<ComparisonSession[]>(
+      tx.objectStore(SESSIONS).getAll(),
+    );
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+
+export const getSession = (id: string) =>
+  withStores([SESSIONS], "readonly", (tx) =>
+    promisify<ComparisonSession | undefined>(tx.objectStore(SESSIONS).get(id)),
+  );
+
+export const getSessionSnapshot = (id: string) =>
+  withStores([SNAPSHOTS], "readonly", (tx) =>
+    promisify<SessionSnapshot | undefined>(tx.objectStore(SNAPSHOTS).get(id)),
+  );
+
+export const updateSession = (id: string, patch: SessionPatch) =>
+  withStores([SESSIONS], "readwrite", async (tx) => {
+    const store = tx.objectStore(SESSIONS);
+    const session = await promisify<ComparisonSession | undefined>(
+      store.get(id),
+    );
+    if (!session) return;
+    await promisify(
+      store.put({ ...session, ...patch, updatedAt: Date.now() }),
+    );
+  });
+
+export const saveSessionSnapshot = (id: string, snapshot: SessionSnapshot) =>
+  withStores([SNAPSHOTS], "readwrite", async (tx) => {
+    await promisify(tx.objectStore(SNAPSHOTS).put(snapshot, id));
+  });
+
+// 切换对比的版本后，旧结果不再适用
+export const deleteSessionSnapshot = (id: string) =>
+  withStores([SNAPSHOTS], "readwrite", async (tx) => {
+    await promisify(tx.objectStore(SNAPSHOTS).delete(id));
+  });
+
+export const deleteSession = (id: string) =>
+  withStores([SESSIONS, SNAPSHOTS], "readwrite", async (tx) => {
+    await Promise.all([
+      promisify(tx.objectStore(SESSIONS).delete(id)),
+      promisify(tx.objectStore(SNAPSHOTS).delete(id)),
+    ]);
+  });
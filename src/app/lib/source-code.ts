@@ -0,0 +1,418 @@
+import type { NormalizedText } from "./normalize";
+
+// 按注释、字符串的写法划分的语言族，同一族共用词法规则
+export type CodeLanguage =
+  | "c"
+  | "python"
+  | "shell"
+  | "yaml"
+  | "sql"
+  | "css"
+  | "xml"
+  | "json"
+  | "ini";
+
+export type CodeTokenKind = "comment" | "string" | "keyword" | "number" | "tag";
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  start: number;
+  end: number; // exclusive
+}
+
+export interface SourceCodeText {
+  language: CodeLanguage;
+  tokens: CodeToken[];
+}
+
+export interface CodeIgnoreOptions {
+  ignoreComments: boolean;
+  ignoreIndentation: boolean; // 缩进与字符串以外的空白，以及空行
+}
+
+export const DEFAULT_CODE_IGNORE_OPTIONS: CodeIgnoreOptions = {
+  ignoreComments: false,
+  ignoreIndentation: false,
+};
+
+export const CODE_IGNORE_OPTION_LABELS: Record<
+  keyof CodeIgnoreOptions,
+  string
+> = {
+  ignoreComments: "忽略注释（代码）",
+  ignoreIndentation: "忽略缩进与空白（代码）",
+};
+
+export const CODE_LANGUAGES: Record<string, CodeLanguage> = {
+  js: "c",
+  jsx: "c",
+  mjs: "c",
+  cjs: "c",
+  ts: "c",
+  tsx: "c",
+  java: "c",
+  kt: "c",
+  scala: "c",
+  c: "c",
+  h: "c",
+  cc: "c",
+  cpp: "c",
+  hpp: "c",
+  cs: "c",
+  go: "c",
+  rs: "c",
+  swift: "c",
+  dart: "c",
+  php: "c",
+  py: "python",
+  sh: "shell",
+  bash: "shell",
+  zsh: "shell",
+  rb: "shell",
+  r: "shell",
+  pl: "shell",
+  toml: "shell",
+  conf: "shell",
+  properties: "shell",
+  yml: "yaml",
+  yaml: "yaml",
+  sql: "sql",
+  css: "css",
+  xml: "xml",
+  svg: "xml",
+  json: "json",
+  ini: "ini",
+  cfg: "ini",
+};
+
+interface LanguageFamily {
+  lineComments: string[];
+  // 行注释的起始位置：任意位置 / 前面是空白 / 只能在行首（可缩进）
+  commentStart: "anywhere" | "after-space" | "line-start";
+  blockComments: [open: string, close: string][];
+  quotes: string[]; // 按顺序匹配，三引号需排在单引号之前
+  multilineQuotes: string[];
+  escapes: boolean; // 反斜杠转义
+  keywords: Set<string>;
+  caseInsensitive?: boolean;
+  // 缩进有语义（Python、YAML），忽略空白时保留行首缩进
+  indentSensitive?: boolean;
+  // 标签语言：只在标签内识别字符串
+  markup?: boolean;
+}
+
+const words = (list: string) => new Set(list.split(" "));
+
+const LANGUAGE_FAMILIES: Record<CodeLanguage, LanguageFamily> = {
+  c: {
+    lineComments: ["//"],
+    commentStart: "anywhere",
+    blockComments: [["/*", "*/"]],
+    quotes: ['"', "'", "`"],
+    multilineQuotes: ["`"],
+    escapes: true,
+    keywords: words(
+      "abstract as async await break case catch class const continue default " +
+        "defer delete do else enum export extends extern false final finally " +
+        "fn for func function go goto if impl implements import in instanceof " +
+        "interface let match mod module mut namespace new nil null override " +
+        "package private protected pub public readonly return static struct " +
+        "super switch this throw throws trait true try type typeof undefined " +
+        "union unsafe use using var void volatile where while yield",
+    ),
+  },
+  python: {
+    lineComments: ["#"],
+    commentStart: "anywhere",
+    blockComments: [],
+    quotes: ['"""', "'''", '"', "'"],
+    multilineQuotes: ['"""', "'''"],
+    escapes: true,
+    keywords: words(
+      "False None True and as assert async await break case class continue " +
+        "def del elif else except finally for from global if import in is " +
+        "lambda match nonlocal not or pass raise return try while with yield",
+    ),
+    indentSensitive: true,
+  },
+  shell: {
+    lineComments: ["#"],
+    commentStart: "after-space",
+    blockComments: [],
+    quotes: ['"', "'"],
+    multilineQuotes: [],
+    escapes: true,
+    keywords: words(
+      "begin break case class continue def do done elif else elsif end ensure " +
+        "esac exit export false fi for function if in local module nil readonly " +
+        "require rescue return then true unless until when while yield",
+    ),
+  },
+  yaml: {
+    lineComments: ["#"],
+    commentStart: "after-space",
+    blockComments: [],
+    quotes: ['"', "'"],
+    multilineQuotes: [],
+    escapes: true,
+    keywords: words("true false null yes no on off"),
+    indentSensitive: true,
+  },
+  sql: {
+    lineComments: ["--"],
+    commentStart: "anywhere",
+    blockComments: [["/*", "*/"]],
+    quotes: ["'", '"'],
+    multilineQuotes: ["'"],
+    escapes: false,
+    keywords: words(
+      "add all alter and as asc begin between by case check commit constraint " +
+        "create default delete desc distinct drop else end exists foreign from " +
+        "full group having in index inner insert into is join key left like " +
+        "limit not null offset on or order outer primary references returning " +
+        "right rollback select set table then union unique update values view " +
+        "when where with",
+    ),
+    caseInsensitive: true,
+  },
+  css: {
+    lineComments: [],
+    commentStart: "anywhere",
+    blockComments: [["/*", "*/"]],
+    quotes: ['"', "'"],
+    multilineQuotes: [],
+    escapes: true,
+    keywords: words("important inherit initial unset none auto"),
+  },
+  xml: {
+    lineComments: [],
+    commentStart: "anywhere",
+    blockComments: [["<!--", "-->"]],
+    quotes: ['"', "'"],
+    multilineQuotes: ['"', "'"],
+    escapes: false,
+    keywords: new Set(),
+    markup: true,
+  },
+  json: {
+    lineComments: [],
+    commentStart: "anywhere",
+    blockComments: [],
+    quotes: ['"'],
+    multilineQuotes: [],
+    escapes: true,
+    keywords: words("true false null"),
+  },
+  ini: {
+    lineComments: [";", "#"],
+    commentStart: "line-start",
+    blockComments: [],
+    quotes: [],
+    multilineQuotes: [],
+    escapes: false,
+    keywords: words("true false yes no on off"),
+  },
+};
+
+const NUMBER_RE =
+  /0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const WORD_RE = /[A-Za-z_$][\w$]*/y;
+const TAG_OPEN_RE = /<[/?!]?[A-Za-z_][\w:.-]*/y;
+const TAG_CLOSE_RE = /\??\/?>/y;
+const CDATA_OPEN = "<![CDATA[";
+const CDATA_CLOSE = "]]>";
+
+const isSpace = (ch: string) => ch === " " || ch === "\t" || ch === "\r";
+
+const commentAllowed = (
+  text: string,
+  pos: number,
+  start: LanguageFamily["commentStart"],
+) => {
+  if (start === "anywhere" || pos === 0) return true;
+  if (start === "after-space") return /\s/.test(text[pos - 1]);
+  let k = pos - 1;
+  while (k >= 0 && isSpace(text[k])) k--;
+  return k < 0 || text[k] === "\n";
+};
+
+const matchAt = (re: RegExp, text: string, pos: number) => {
+  re.lastIndex = pos;
+  return re.exec(text)?.[0];
+};
+
+/**
+ * 按语言族做简单的词法分析，找出注释、字符串、关键字、数字（XML 另有标签）。
+ * 只用于高亮和忽略注释，不追求完整的语法：正则字面量、嵌套注释等按普通文字处理。
+ */
+export const tokenizeCode = (
+  text: string,
+  language: CodeLanguage,
+): CodeToken[] => {
+  const family = LANGUAGE_FAMILIES[language];
+  const tokens: CodeToken[] = [];
+  const push = (kind: CodeTokenKind, start: number, end: number) => {
+    if (end > start) tokens.push({ kind, start, end });
+  };
+  let inTag = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const block = family.blockComments.find(([open]) =>
+      text.startsWith(open, i),
+    );
+    if (block && !inTag) {
+      const close = text.indexOf(block[1], i + block[0].length);
+      const end = close === -1 ? text.length : close + block[1].length;
+      push("comment", i, end);
+      i = end;
+      continue;
+    }
+    if (
+      family.lineComments.some((prefix) => text.startsWith(prefix, i)) &&
+      commentAllowed(text, i, family.commentStart)
+    ) {
+      const newline = text.indexOf("\n", i);
+      const end = newline === -1 ? text.length : newline;
+      push("comment", i, end);
+      i = end;
+      continue;
+    }
+
+    if (family.markup) {
+      // CDATA 是正文内容而不是注释，按字符串高亮，忽略注释时也保留
+      if (!inTag && text.startsWith(CDATA_OPEN, i)) {
+        const close = text.indexOf(CDATA_CLOSE, i + CDATA_OPEN.length);
+        const end = close === -1 ? text.length : close + CDATA_CLOSE.length;
+        push("string", i, end);
+        i = end;
+        continue;
+      }
+      const tag = matchAt(inTag ? TAG_CLOSE_RE : TAG_OPEN_RE, text, i);
+      if (tag) {
+        push("tag", i, i + tag.length);
+        inTag = !inTag;
+        i += tag.length;
+        continue;
+      }
+      // 标签之外是正文，不做高亮
+      if (!inTag) {
+        i++;
+        continue;
+      }
+    }
+
+    const quote = family.quotes.find((q) => text.startsWith(q, i));
+    if (quote) {
+      const multiline = family.multilineQuotes.includes(quote);
+      let j = i + quote.length;
+      while (j < text.length) {
+        if (family.escapes && text[j] === "\\") {
+          j += 2;
+        } else if (text.startsWith(quote, j)) {
+          j += quote.length;
+          break;
+        } else if (text[j] === "\n" && !multiline) {
+          break;
+        } else {
+          j++;
+        }
+      }
+      const end = Math.min(j, text.length);
+      push("string", i, end);
+      i = end;
+      continue;
+    }
+
+    const word = matchAt(WORD_RE, text, i);
+    if (word) {
+      const key = family.caseInsensitive ? word.toLowerCase() : word;
+      if (family.keywords.has(key)) push("keyword", i, i + word.length);
+      i += word.length;
+      continue;
+    }
+    const number = /\d/.test(text[i]) ? matchAt(NUMBER_RE, text, i) : undefined;
+    if (number) {
+      push("number", i, i + number.length);
+      i += number.length;
+      continue;
+    }
+    i++;
+  }
+
+  return tokens;
+};
+
+export const extractSourceCode = (
+  text: string,
+  language: CodeLanguage,
+): SourceCodeText => ({ language, tokens: tokenizeCode(text, language) });
+
+/**
+ * 按语言去掉注释，或去掉字符串以外的空白，得到用于对比的文本（位置映射回原文）。
+ * 缩进有语义的语言保留行首缩进；去掉后只剩空白的行连同换行一起忽略，
+ * 因此新增一行注释或一个空行不会产生差异。
+ */
+export const stripSourceCode = (
+  text: string,
+  code: SourceCodeText,
+  options: CodeIgnoreOptions,
+): NormalizedText => {
+  const family = LANGUAGE_FAMILIES[code.language];
+  const removed = new Uint8Array(text.length);
+  const inString = new Uint8Array(text.length);
+  for (const token of code.tokens) {
+    if (token.kind === "comment" && options.ignoreComments) {
+      // 块注释内的换行保留，注释前的行尾空白一并去掉
+      for (let i = token.start; i < token.end; i++) {
+        if (text[i] !== "\n") removed[i] = 1;
+      }
+      for (let k = token.start - 1; k >= 0 && isSpace(text[k]); k--) {
+        removed[k] = 1;
+      }
+    } else if (token.kind === "string") {
+      inString.fill(1, token.start, token.end);
+    }
+  }
+
+  if (options.ignoreIndentation) {
+    let lineStart = true;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === "\n") {
+        lineStart = true;
+      } else if (!/\s/.test(ch)) {
+        if (!removed[i]) lineStart = false;
+      } else if (!inString[i] && !(family.indentSensitive && lineStart)) {
+        removed[i] = 1;
+      }
+    }
+  }
+
+  let start = 0;
+  while (start < text.length) {
+    const newline = text.indexOf("\n", start);
+    const end = newline === -1 ? text.length : newline;
+    let blank = true;
+    let touched = false;
+    for (let i = start; i < end && blank; i++) {
+      if (removed[i]) touched = true;
+      else if (!/\s/.test(text[i])) blank = false;
+    }
+    if (blank && (touched || options.ignoreIndentation)) {
+      removed.fill(1, start, Math.min(end + 1, text.length));
+    }
+    start = end + 1;
+  }
+
+  const kept: string[] = [];
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (removed[i]) continue;
+    kept.push(text[i]);
+    starts.push(i);
+    ends.push(i + 1);
+  }
+  return { text: kept.join(""), starts, ends };
+};
@@ -0,0 +1,457 @@
+import DiffMatchPatch from "diff-match-patch";
+import type { DiffItem } from "./compare";
+import type { SheetData, SpreadsheetDocument } from "./spreadsheet";
+
+export interface SheetCompareOptions {
+  headerRow: boolean; // 首行为表头：按表头名称匹配列，表头不参与逐行比较
+  // 按这一列的值匹配行：有表头时为表头名称，否则为列字母；null 时按行的顺序对齐
+  keyColumn: string | null;
+}
+
+export const DEFAULT_SHEET_COMPARE_OPTIONS: SheetCompareOptions = {
+  headerRow: true,
+  keyColumn: null,
+};
+
+export type SheetChange = "same" | "added" | "removed" | "changed";
+
+export interface SheetColumn {
+  header: string; // 表头文字；没有表头时为空
+  colA: number | null; // 在两侧工作表中的列（从 0 开始）
+  colB: number | null;
+  status: Exclude<SheetChange, "changed">;
+}
+
+export interface SheetCell {
+  a: string;
+  b: string;
+  status: SheetChange;
+  diffId?: number;
+}
+
+export interface SheetRow {
+  rowA: number | null; // 在两侧工作表中的行号（从 1 开始，与 Excel 一致）
+  rowB: number | null;
+  status: SheetChange;
+  cells: SheetCell[]; // 与 columns 一一对应
+  diffId?: number; // 整行新增或删除
+}
+
+export interface SheetComparison {
+  name: string;
+  status: SheetChange;
+  columns: SheetColumn[];
+  rows: SheetRow[];
+  differences: DiffItem[];
+  diffId?: number; // 整个工作表新增或删除
+  keyMissing: boolean; // 指定的主键列在某一侧不存在，已改为按行的顺序对齐
+}
+
+export interface SpreadsheetComparison {
+  sheets: SheetComparison[];
+  differences: DiffItem[];
+}
+
+// 列号转为 Excel 的列字母：0 → A，26 → AA
+export const columnLetter = (index: number): string => {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+const columnIndex = (letters: string) =>
+  [...letters.toUpperCase()].reduce(
+    (index, char) => index * 26 + char.charCodeAt(0) - 64,
+    0,
+  ) - 1;
+
+// 含空格、标点的工作表名在引用中要加单引号，如 'Q1 报价'!C12
+const sheetRef = (name: string) =>
+  /^[\p{L}_][\p{L}\p{N}_.]*$/u.test(name)
+    ? name
+    : `'${name.replace(/'/g, "''")}'`;
+
+const truncate = (text: string) =>
+  text.substring(0, 50) + (text.length > 50 ? "..." : "");
+
+const rowText = (cells: string[]) =>
+  truncate(cells.filter(Boolean).join(" | "));
+
+// 同名的项按出现顺序一一对应，返回 B 中每一项匹配到的 A 中下标
+const matchByKey = (keysA: string[], keysB: string[]) => {
+  const queues = new Map<string, number[]>();
+  keysA.forEach((key, idx) => {
+    if (!queues.has(key)) queues.set(key, []);
+    queues.get(key)!.push(idx);
+  });
+  return keysB.map((key) => queues.get(key)?.shift() ?? null);
+};
+
+// 按 B 的顺序合并两侧的项，只在 A 中的项排在它之前最近的已匹配项之后
+const mergeOrder = (countA: number, matches: (number | null)[]) => {
+  const used = new Set(matches.filter((a) => a !== null));
+  const merged: [number | null, number | null][] = [];
+  let nextA = 0;
+  const flushA = (until: number) => {
+    for (; nextA < until; nextA++) {
+      if (!used.has(nextA)) merged.push([nextA, null]);
+    }
+  };
+  matches.forEach((a, b) => {
+    if (a !== null && a >= nextA) {
+      flushA(a);
+      nextA = a + 1;
+    }
+    merged.push([a, b]);
+  });
+  flushA(countA);
+  return merged;
+};
+
+// 两行中内容相同的非空单元格数
+const similarity = (a: string[], b: string[]) =>
+  a.reduce((count, cell, idx) => count + (cell && cell === b[idx] ? 1 : 0), 0);
+
+// 逐格比较的行数上限，超出时按顺序配对
+const MAX_PAIRING_CELLS = 2500;
+
+/**
+ * 一段连续的删除行与新增行中，找出改动过的行：
+ * 按相同单元格数做动态规划，保持顺序地配对最相似的行，其余为新增或删除。
+ */
+const pairChangedRows = (
+  deleted: number[],
+  inserted: number[],
+  rowsA: string[][],
+  rowsB: string[][],
+): [number | null, number | null][] => {
+  const n = deleted.length;
+  const m = inserted.length;
+  if (!n || !m || n * m > MAX_PAIRING_CELLS) {
+    return Array.from({ length: Math.max(n, m) }, (_, i) => [
+      deleted[i] ?? null,
+      inserted[i] ?? null,
+    ]);
+  }
+
+  const sim = deleted.map((a) =>
+    inserted.map((b) => similarity(rowsA[a], rowsB[b])),
+  );
+  const score = Array.from({ length: n + 1 }, () => Array(m + 1).fill(0));
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      score[i][j] = Math.max(
+        score[i - 1][j],
+        score[i][j - 1],
+        sim[i - 1][j - 1] ? score[i - 1][j - 1] + sim[i - 1][j - 1] : 0,
+      );
+    }
+  }
+
+  const pairs: [number | null, number | null][] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (
+      i > 0 &&
+      j > 0 &&
+      sim[i - 1][j - 1] &&
+      score[i][j] === score[i - 1][j - 1] + sim[i - 1][j - 1]
+    ) {
+      pairs.push([deleted[--i], inserted[--j]]);
+    } else if (j > 0 && (i === 0 || score[i][j] === score[i][j - 1])) {
+      pairs.push([null, inserted[--j]]);
+    } else {
+      pairs.push([deleted[--i], null]);
+    }
+  }
+  return pairs.reverse();
+};
+
+// 行内容编码为字符后按 diff 对齐；可编码的不同行数有限，超出时按位置一一对应
+const MAX_DISTINCT_ROWS = 0xd000;
+
+const alignRows = (rowsA: string[][], rowsB: string[][]) => {
+  const codes = new Map<string, string>();
+  const encode = (rows: string[][]) =>
+    rows
+      .map((cells) => {
+        const signature = cells.join("\0");
+        let code = codes.get(signature);
+        if (code === undefined) {
+          code = String.fromCharCode(codes.size + 1);
+          codes.set(signature, code);
+        }
+        return code;
+      })
+      .join("");
+  const textA = encode(rowsA);
+  const textB = encode(rowsB);
+
+  const pairs: [number | null, number | null][] = [];
+  if (codes.size >= MAX_DISTINCT_ROWS) {
+    const count = Math.max(rowsA.length, rowsB.length);
+    for (let i = 0; i < count; i++) {
+      pairs.push([i < rowsA.length ? i : null, i < rowsB.length ? i : null]);
+    }
+    return pairs;
+  }
+
+  let deleted: number[] = [];
+  let inserted: number[] = [];
+  const flush = () => {
+    pairs.push(...pairChangedRows(deleted, inserted, rowsA, rowsB));
+    deleted = [];
+    inserted = [];
+  };
+  let a = 0;
+  let b = 0;
+  for (const [op, text] of new DiffMatchPatch().diff_main(textA, textB)) {
+    for (let k = 0; k < text.length; k++) {
+      if (op === DiffMatchPatch.DIFF_EQUAL) {
+        flush();
+        pairs.push([a++, b++]);
+      } else if (op === DiffMatchPatch.DIFF_DELETE) {
+        deleted.push(a++);
+      } else {
+        inserted.push(b++);
+      }
+    }
+  }
+  flush();
+  return pairs;
+};
+
+const sheetWidth = (rows: string[][]) =>
+  rows.reduce((width, row) => Math.max(width, row.length), 0);
+
+// 有表头时按表头名称匹配列（空表头按位置），否则按位置
+const matchColumns = (
+  sheetA: SheetData,
+  sheetB: SheetData,
+  headerRow: boolean,
+): SheetColumn[] => {
+  const headersA = headerRow ? (sheetA.rows[0] ?? []) : [];
+  const headersB = headerRow ? (sheetB.rows[0] ?? []) : [];
+  const keys = (headers: string[], width: number) =>
+    Array.from({ length: width }, (_, idx) => headers[idx] || `\0${idx}`);
+  const matches = matchByKey(
+    keys(headersA, sheetWidth(sheetA.rows)),
+    keys(headersB, sheetWidth(sheetB.rows)),
+  );
+  return mergeOrder(sheetWidth(sheetA.rows), matches).map(([colA, colB]) => ({
+    header: colB !== null ? (headersB[colB] ?? "") : (headersA[colA!] ?? ""),
+    colA,
+    colB,
+    status: colA === null ? "added" : colB === null ? "removed" : "same",
+  }));
+};
+
+// 主键列在工作表中的位置，找不到时为 -1
+const keyColumnIndex = (
+  sheet: SheetData,
+  keyColumn: string,
+  headerRow: boolean,
+) => {
+  if (headerRow) return (sheet.rows[0] ?? []).indexOf(keyColumn);
+  const index = /^[A-Za-z]+$/.test(keyColumn) ? columnIndex(keyColumn) : -1;
+  return index < sheetWidth(sheet.rows) ? index : -1;
+};
+
+const compareSheet = (
+  sheetA: SheetData | null,
+  sheetB: SheetData | null,
+  options: SheetCompareOptions,
+  newId: () => number,
+): SheetComparison => {
+  const firstRow = options.headerRow ? 2 : 1;
+
+  // 整个工作表新增或删除：只报告一处差异
+  if (!sheetA || !sheetB) {
+    const sheet = sheetA ?? sheetB;
+    if (!sheet) throw new Error("工作表不能两侧都为空");
+    const { name } = sheet;
+    const added = !sheetA;
+    const diffId = newId();
+    const columns = matchColumns(
+      added ? { name, rows: [] } : sheet,
+      added ? sheet : { name, rows: [] },
+      options.headerRow,
+    );
+    const rows = sheet.rows.slice(firstRow - 1).map(
+      (cells, idx): SheetRow => ({
+        rowA: added ? null : idx + firstRow,
+        rowB: added ? idx + firstRow : null,
+        status: added ? "added" : "removed",
+        cells: columns.map((column) => {
+          const value = cells[(added ? column.colB : column.colA)!] ?? "";
+          return {
+            a: added ? "" : value,
+            b: added ? value : "",
+            status: added ? "added" : "removed",
+          };
+        }),
+      }),
+    );
+    const label = `工作表 ${name}（${rows.length} 行）`;
+    return {
+      name,
+      status: added ? "added" : "removed",
+      columns,
+      rows,
+      diffId,
+      keyMissing: false,
+      differences: [
+        {
+          id: diffId,
+          type: added ? "addition" : "deletion",
+          textA: added ? "" : label,
+          textB: added ? label : "",
+          position: sheetRef(name),
+        },
+      ],
+    };
+  }
+
+  const { name } = sheetB;
+  const ref = sheetRef(name);
+  const differences: DiffItem[] = [];
+  const columns = matchColumns(sheetA, sheetB, options.headerRow);
+  columns.forEach((column) => {
+    if (column.status === "same") return;
+    const col = (column.status === "added" ? column.colB : column.colA)!;
+    const label = column.header || `${columnLetter(col)} 列`;
+    differences.push({
+      id: newId(),
+      type: column.status === "added" ? "addition" : "deletion",
+      textA: column.status === "removed" ? label : "",
+      textB: column.status === "added" ? label : "",
+      position: `${ref}!${columnLetter(col)}:${columnLetter(col)}`,
+    });
+  });
+
+  const dataA = sheetA.rows.slice(firstRow - 1);
+  const dataB = sheetB.rows.slice(firstRow - 1);
+  const shared = columns.filter((column) => column.status === "same");
+
+  const keyA = options.keyColumn
+    ? keyColumnIndex(sheetA, options.keyColumn, options.headerRow)
+    : -1;
+  const keyB = options.keyColumn
+    ? keyColumnIndex(sheetB, options.keyColumn, options.headerRow)
+    : -1;
+  const keyed = keyA !== -1 && keyB !== -1;
+  const pairs = keyed
+    ? mergeOrder(
+        dataA.length,
+        matchByKey(
+          dataA.map((cells) => cells[keyA] ?? ""),
+          dataB.map((cells) => cells[keyB] ?? ""),
+        ),
+      )
+    : alignRows(
+        dataA.map((cells) => shared.map((column) => cells[column.colA!] ?? "")),
+        dataB.map((cells) => shared.map((column) => cells[column.colB!] ?? "")),
+      );
+
+  const rows = pairs.map(([ia, ib]): SheetRow => {
+    const cellsA = ia !== null ? dataA[ia] : [];
+    const cellsB = ib !== null ? dataB[ib] : [];
+    const rowA = ia !== null ? ia + firstRow : null;
+    const rowB = ib !== null ? ib + firstRow : null;
+    // 按主键匹配时在位置后注明主键，便于核对
+    const keyValue = keyed ? (ib !== null ? cellsB[keyB] : cellsA[keyA]) : "";
+    const suffix = keyValue ? ` · ${keyValue}` : "";
+    const cells = columns.map((column): SheetCell => ({
+      a: column.colA !== null ? (cellsA[column.colA] ?? "") : "",
+      b: column.colB !== null ? (cellsB[column.colB] ?? "") : "",
+      status: column.status,
+    }));
+
+    if (rowA === null || rowB === null) {
+      const added = rowA === null;
+      const diffId = newId();
+      const row = (added ? rowB : rowA)!;
+      differences.push({
+        id: diffId,
+        type: added ? "addition" : "deletion",
+        textA: added ? "" : rowText(cellsA),
+        textB: added ? rowText(cellsB) : "",
+        position: `${ref}!${row}:${row}${suffix}`,
+      });
+      const status = added ? "added" : "removed";
+      return {
+        rowA,
+        rowB,
+        status,
+        diffId,
+        cells: cells.map((cell) => ({ ...cell, status })),
+      };
+    }
+
+    let changed = false;
+    cells.forEach((cell, idx) => {
+      if (cell.status !== "same" || cell.a === cell.b) return;
+      changed = true;
+      cell.status = !cell.a ? "added" : !cell.b ? "removed" : "changed";
+      cell.diffId = newId();
+      differences.push({
+        id: cell.diffId,
+        type:
+          cell.status === "added"
+            ? "addition"
+            : cell.status === "removed"
+              ? "deletion"
+              : "modification",
+        textA: truncate(cell.a),
+        textB: truncate(cell.b),
+        position: `${ref}!${columnLetter(columns[idx].colB!)}${rowB}${suffix}`,
+      });
+    });
+    return { rowA, rowB, status: changed ? "changed" : "same", cells };
+  });
+
+  return {
+    name,
+    status: differences.length ? "changed" : "same",
+    columns,
+    rows,
+    differences,
+    keyMissing: !!options.keyColumn && !keyed,
+  };
+};
+
+/**
+ * 比较两个表格：工作表按名称对应（两侧各只有一个工作表时直接对应），
+ * 列按表头名称或位置对应，行按主键列的值或按行的顺序对齐，
+ * 报告新增、删除的工作表、列、行以及内容不同的单元格，位置采用 Excel 引用（如 Sheet1!C12）。
+ */
+export const compareSpreadsheets = (
+  docA: SpreadsheetDocument,
+  docB: SpreadsheetDocument,
+  options: SheetCompareOptions,
+): SpreadsheetComparison => {
+  let nextId = 1;
+  const newId = () => nextId++;
+
+  const pairs: [SheetData | null, SheetData | null][] =
+    docA.sheets.length === 1 && docB.sheets.length === 1
+      ? [[docA.sheets[0], docB.sheets[0]]]
+      : mergeOrder(
+          docA.sheets.length,
+          matchByKey(
+            docA.sheets.map((sheet) => sheet.name),
+            docB.sheets.map((sheet) => sheet.name),
+          ),
+        ).map(([a, b]) => [
+          a !== null ? docA.sheets[a] : null,
+          b !== null ? docB.sheets[b] : null,
+        ]);
+
+  const sheets = pairs.map(([sheetA, sheetB]) =>
+    compareSheet(sheetA, sheetB, options, newId),
+  );
+  return { sheets, differences: sheets.flatMap((sheet) => sheet.differences) };
+};
@@ -0,0 +1,160 @@
+import type { CellValue } from "exceljs";
+import { fileExtension } from "./read-document";
+import { decodeText } from "./text-encoding";
+
+// 表格中的一个工作表：按显示文字保存单元格，行列均从 0 开始
+export interface SheetData {
+  name: string;
+  rows: string[][];
+}
+
+export interface SpreadsheetDocument {
+  sheets: SheetData[];
+}
+
+export const SPREADSHEET_EXTENSIONS = ["xlsx", "csv"];
+
+// CSV 没有工作表名，与 Excel 打开时的默认名称一致
+const CSV_SHEET_NAME = "Sheet1";
+
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+// 按首行中出现最多的分隔符判断（欧洲地区的 Excel 导出使用分号）
+const detectDelimiter = (text: string) => {
+  const end = text.indexOf("\n");
+  const firstLine = end === -1 ? text : text.slice(0, end);
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// 按 RFC 4180 解析：引号内可含分隔符、换行，两个引号表示一个引号
+const parseCsv = (text: string, delimiter = detectDelimiter(text)) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// 浮点运算的尾差（如 0.30000000000000004）按 15 位有效数字去掉
+const numberText = (value: number) => String(Number(value.toPrecision(15)));
+
+// Excel 的日期以 UTC 保存；没有时间部分时只显示日期
+const dateText = (value: Date) => {
+  const iso = value.toISOString();
+  const time = iso.slice(11, 19);
+  const date = iso.slice(0, 10);
+  return time === "00:00:00" ? date : `${date} ${time}`;
+};
+
+const cellText = (value: CellValue): string => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return numberText(value);
+  if (value instanceof Date) return dateText(value);
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) {
+    return value.richText.map((run) => run.text).join("");
+  }
+  if ("formula" in value || "sharedFormula" in value) {
+    return cellText(value.result);
+  }
+  if ("hyperlink" in value) {
+    return typeof value.text === "string" ? value.text : value.hyperlink;
+  }
+  if ("error" in value) return value.error;
+  return "";
+};
+
+// 去掉行尾的空单元格和表尾的空行，避免格式残留造成差异
+const trimRows = (rows: string[][]) => {
+  const trimmed = rows.map((row) => {
+    let end = row.length;
+    while (end > 0 && !row[end - 1]) end--;
+    return row.slice(0, end);
+  });
+  while (trimmed.length && !trimmed[trimmed.length - 1].length) trimmed.pop();
+  return trimmed;
+};
+
+// exceljs 体积较大，按需加载
+const readXlsx = async (data: ArrayBuffer): Promise<SpreadsheetDocument> => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  return {
+    sheets: workbook.worksheets.map((sheet) => {
+      const rows: string[][] = [];
+      for (let r = 1; r <= sheet.rowCount; r++) {
+        const row = sheet.getRow(r);
+        const cells: string[] = [];
+        for (let c = 1; c <= row.cellCount; c++) {
+          cells.push(cellText(row.getCell(c).value).trim());
+        }
+        rows.push(cells);
+      }
+      return { name: sheet.name, rows: trimRows(rows) };
+    }),
+  };
+};
+
+// 读取 XLSX 或 CSV；CSV 常由旧系统以 GBK 导出，按内容检测编码
+export const readSpreadsheet = async (
+  file: File,
+): Promise<SpreadsheetDocument> => {
+  const type = fileExtension(file.name);
+  const data = await file.arrayBuffer();
+  if (type === "xlsx") {
+    try {
+      return await readXlsx(data);
+    } catch {
+      throw new Error(`${file.name} 不是有效的 XLSX 文件，文件可能已损坏`);
+    }
+  }
+  if (type === "csv") {
+    const rows = parseCsv(decodeText(data).text).map((row) =>
+      row.map((cell) => cell.trim()),
+    );
+    return { sheets: [{ name: CSV_SHEET_NAME, rows: trimRows(rows) }] };
+  }
+  throw new Error(
+    `不支持的表格类型：${file.name}（支持 ${SPREADSHEET_EXTENSIONS.join("、")}）`,
+  );
+};
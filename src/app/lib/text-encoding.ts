@@ -0,0 +1,114 @@
+// 纯文本文件可选的编码；GBK 是 GB18030 的子集，统一按 GB18030 解码
+export type TextEncoding =
+  | "utf-8"
+  | "gb18030"
+  | "big5"
+  | "utf-16le"
+  | "utf-16be";
+
+export const TEXT_ENCODINGS: { value: TextEncoding; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "gb18030", label: "GBK / GB18030" },
+  { value: "big5", label: "Big5" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+];
+
+export const encodingLabel = (encoding: TextEncoding) =>
+  TEXT_ENCODINGS.find((option) => option.value === encoding)?.label ??
+  encoding;
+
+export interface DetectedEncoding {
+  encoding: TextEncoding;
+  source: "bom" | "heuristic";
+}
+
+// 只取文件开头的一段判断编码
+const SAMPLE_SIZE = 64 * 1024;
+
+const BOMS: [number[], TextEncoding][] = [
+  [[0xef, 0xbb, 0xbf], "utf-8"],
+  [[0xff, 0xfe], "utf-16le"],
+  [[0xfe, 0xff], "utf-16be"],
+];
+
+// 样本末尾可能截断了多字节字符，按流式解码忽略末尾不完整的部分
+const decodesCleanly = (bytes: Uint8Array, encoding: TextEncoding) => {
+  try {
+    new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 没有 BOM 的 UTF-16：西文字符的高位字节为 0，集中出现在奇数位（LE）或偶数位（BE）
+const detectUtf16 = (bytes: Uint8Array): TextEncoding | null => {
+  const pairs = Math.floor(bytes.length / 2);
+  if (pairs === 0) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return "utf-16le";
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return "utf-16be";
+  return null;
+};
+
+/**
+ * GBK 与 Big5 都是双字节编码，字节范围大量重叠，按第二个字节的分布区分：
+ * GB2312 常用汉字的第二字节都在 0xA1 以上，Big5 常用字约一半落在 0x40~0x7E。
+ */
+const BIG5_LOW_TRAIL_RATIO = 0.1;
+
+const detectDoubleByte = (bytes: Uint8Array): TextEncoding => {
+  const gbValid = decodesCleanly(bytes, "gb18030");
+  const big5Valid = decodesCleanly(bytes, "big5");
+  if (gbValid !== big5Valid) return gbValid ? "gb18030" : "big5";
+
+  let pairs = 0;
+  let lowTrails = 0;
+  for (let i = 0; i < bytes.length - 1; ) {
+    const lead = bytes[i];
+    if (lead < 0x81 || lead === 0xff) {
+      i++;
+      continue;
+    }
+    const trail = bytes[i + 1];
+    // GB18030 的四字节序列，第二字节为数字
+    if (trail >= 0x30 && trail <= 0x39) return "gb18030";
+    pairs++;
+    if (trail >= 0x40 && trail <= 0x7e) lowTrails++;
+    i += 2;
+  }
+  return pairs > 0 && lowTrails / pairs > BIG5_LOW_TRAIL_RATIO
+    ? "big5"
+    : "gb18030";
+};
+
+// 依次检查 BOM、UTF-16 特征、UTF-8 合法性，最后在 GBK 与 Big5 之间判断
+export const detectEncoding = (data: ArrayBuffer): DetectedEncoding => {
+  const length = Math.min(data.byteLength, SAMPLE_SIZE);
+  const bytes = new Uint8Array(data, 0, length);
+
+  for (const [bom, encoding] of BOMS) {
+    if (bom.every((byte, idx) => bytes[idx] === byte)) {
+      return { encoding, source: "bom" };
+    }
+  }
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) return { encoding: utf16, source: "heuristic" };
+  if (decodesCleanly(bytes, "utf-8")) {
+    return { encoding: "utf-8", source: "heuristic" };
+  }
+  return { encoding: detectDoubleByte(bytes), source: "heuristic" };
+};
+
+// 按指定编码解码，未指定时自动检测；BOM 由 TextDecoder 去掉
+export const decodeText = (data: ArrayBuffer, encoding?: TextEncoding) => {
+  const used = encoding ?? detectEncoding(data).encoding;
+  return { text: new TextDecoder(used).decode(data), encoding: used };
+};
@@ -0,0 +1,148 @@
+// 文字的直接格式（Word 中 run 的属性），null 表示未设置、沿用样式
+export interface TextFormat {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+  font: string | null;
+  fontSize: number | null; // 磅
+  color: string | null; // RRGGBB，自动颜色记为 null
+  highlight: string | null;
+  link: string | null; // 超链接地址
+}
+
+// 一段格式相同的文字在全文中的区间 [start, end)
+export interface FormatRun {
+  start: number;
+  end: number;
+  format: TextFormat;
+}
+
+// 格式只在两侧文字相同的区间内比较；区间内偏移从 0 开始
+export interface FormatChange {
+  start: number;
+  end: number;
+  description: string; // 如“加粗 → 常规；黑色 → 红色”
+}
+
+export const PLAIN_FORMAT: TextFormat = {
+  bold: false,
+  italic: false,
+  underline: false,
+  strikethrough: false,
+  font: null,
+  fontSize: null,
+  color: null,
+  highlight: null,
+  link: null,
+};
+
+const COLOR_NAMES: Record<string, string> = {
+  "000000": "黑色",
+  FFFFFF: "白色",
+  FF0000: "红色",
+  C00000: "深红色",
+  "00B050": "绿色",
+  "008000": "绿色",
+  "0000FF": "蓝色",
+  "0070C0": "蓝色",
+  FFFF00: "黄色",
+  FFC000: "橙色",
+  "7030A0": "紫色",
+  "808080": "灰色",
+};
+
+const colorLabel = (color: string | null) =>
+  color ? (COLOR_NAMES[color.toUpperCase()] ?? `#${color}`) : "自动颜色";
+
+// 逐项列出两种格式的不同；没有格式信息（如块之间的换行）时视为常规文字
+export const describeFormatChange = (
+  from: TextFormat | null,
+  to: TextFormat | null,
+): string => {
+  if (!from && !to) return "";
+  const a = from ?? PLAIN_FORMAT;
+  const b = to ?? PLAIN_FORMAT;
+  const parts: string[] = [];
+  const toggle = (key: keyof TextFormat, on: string, off: string) => {
+    if (a[key] !== b[key]) {
+      parts.push(a[key] ? `${on} → ${off}` : `${off} → ${on}`);
+    }
+  };
+
+  toggle("bold", "加粗", "常规");
+  toggle("italic", "斜体", "常规");
+  toggle("underline", "下划线", "无下划线");
+  toggle("strikethrough", "删除线", "无删除线");
+  if (a.font !== b.font) {
+    parts.push(`${a.font ?? "默认字体"} → ${b.font ?? "默认字体"}`);
+  }
+  if (a.fontSize !== b.fontSize) {
+    const size = (value: number | null) =>
+      value === null ? "默认字号" : `${value} 磅`;
+    parts.push(`${size(a.fontSize)} → ${size(b.fontSize)}`);
+  }
+  if (a.color !== b.color) {
+    parts.push(`${colorLabel(a.color)} → ${colorLabel(b.color)}`);
+  }
+  if (a.highlight !== b.highlight) {
+    const mark = (value: string | null) =>
+      value ? `突出显示（${value}）` : "无突出显示";
+    parts.push(`${mark(a.highlight)} → ${mark(b.highlight)}`);
+  }
+  if (a.link !== b.link) {
+    const link = (value: string | null) =>
+      value ? `链接（${value}）` : "无链接";
+    parts.push(`${link(a.link)} → ${link(b.link)}`);
+  }
+  return parts.join("；");
+};
+
+export type FormatCursor = (offset: number) => {
+  format: TextFormat | null;
+  end: number;
+};
+
+/**
+ * 按偏移递增地查询格式：返回 offset 处的格式以及该格式持续到的位置。
+ * 对比时各区间依次向后推进，因此只需保存当前所在的 run。
+ */
+export const createFormatCursor = (runs: FormatRun[]): FormatCursor => {
+  let idx = 0;
+  return (offset) => {
+    while (idx < runs.length && runs[idx].end <= offset) idx++;
+    const run = runs[idx];
+    if (!run) return { format: null, end: Infinity };
+    if (run.start > offset) return { format: null, end: run.start };
+    return { format: run.format, end: run.end };
+  };
+};
+
+// 比较两侧相同文字的格式，相邻且变化相同的片段合并为一处
+export const diffFormats = (
+  text: string,
+  formatA: FormatCursor,
+  startA: number,
+  formatB: FormatCursor,
+  startB: number,
+): FormatChange[] => {
+  const changes: FormatChange[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    const a = formatA(startA + pos);
+    const b = formatB(startB + pos);
+    const end = Math.min(a.end - startA, b.end - startB, text.length);
+    const description = describeFormatChange(a.format, b.format);
+    const last = changes[changes.length - 1];
+    if (description) {
+      if (last && last.end === pos && last.description === description) {
+        last.end = end;
+      } else {
+        changes.push({ start: pos, end, description });
+      }
+    }
+    pos = end;
+  }
+  // 只有空白的格式变化看不出来，不报告
+  return changes.filter(({ start, end }) => text.slice(start, end).trim());
+};
@@ -0,0 +1,4 @@
+// 汉字、假名与全角字符（含全角标点）
+export const CJK_CHARS = "[\\u3000-\\u30ff\\u3400-\\u9fff\\uf900-\\ufaff\\uff00-\\uffef]";
+
+export const CJK_RE = new RegExp(CJK_CHARS);
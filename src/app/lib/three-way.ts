@@ -0,0 +1,288 @@
+import DiffMatchPatch from "diff-match-patch";
+import type { DiffItem } from "./compare";
+
+export type ThreeWaySide = "base" | "mine" | "theirs";
+
+// 变更来源：只有我改、只有对方改、双方改得一样、双方改得不同（冲突）
+export type ChangeOrigin = "mine" | "theirs" | "both" | "conflict";
+
+export type ConflictResolution = "mine" | "theirs" | "both" | "base";
+
+export const ORIGIN_LABELS: Record<ChangeOrigin, string> = {
+  mine: "仅我的",
+  theirs: "仅他们的",
+  both: "双方相同",
+  conflict: "冲突",
+};
+
+export const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  mine: "采用我的",
+  theirs: "采用他们的",
+  both: "两者都保留",
+  base: "保留原文",
+};
+
+export type MergeRegion =
+  | { kind: "stable"; text: string }
+  | {
+      kind: ChangeOrigin;
+      id: number;
+      line: number; // 在基础版本中的起始行（0-based）
+      base: string;
+      mine: string;
+      theirs: string;
+    };
+
+export type ChangeRegion = Exclude<MergeRegion, { kind: "stable" }>;
+
+export interface ThreeWayResult {
+  regions: MergeRegion[];
+  differences: DiffItem[];
+}
+
+interface Hunk {
+  side: "mine" | "theirs";
+  start: number; // 基础版本中被替换的行区间 [start, end)
+  end: number;
+  lines: string[];
+}
+
+// 按行切分并保留换行符，拼接后与原文完全一致
+const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+const truncate = (text: string) =>
+  text.substring(0, 50) + (text.length > 50 ? "..." : "");
+
+// 每行编码为一个 UTF-16 码元，三份文本依次能用到的行种类上限
+const MAX_LINES = [30000, 50000, 65535];
+
+/**
+ * 与 diff_linesToChars_ 相同的按行编码，但三份文本共用一张行表，
+ * 这样基础版本分别与两侧比较时得到的行号可以直接对应。
+ * 行的种类超出上限时，把该文本剩余的行合并为一行，返回的 lines 与编码一一对应。
+ */
+const encodeLines = (texts: string[][]) => {
+  const hash = new Map<string, number>();
+  return texts.map((allLines, idx) => {
+    const lines: string[] = [];
+    let chars = "";
+    for (let i = 0; i < allLines.length; i++) {
+      const line =
+        hash.size >= MAX_LINES[idx] ? allLines.slice(i).join("") : allLines[i];
+      let code = hash.get(line);
+      if (code === undefined) {
+        code = hash.size + 1;
+        hash.set(line, code);
+      }
+      lines.push(line);
+      chars += String.fromCharCode(code);
+      if (line !== allLines[i]) break;
+    }
+    return { lines, chars };
+  });
+};
+
+const collectHunks = (
+  dmp: DiffMatchPatch,
+  baseChars: string,
+  sideChars: string,
+  sideLines: string[],
+  side: Hunk["side"],
+): Hunk[] => {
+  const diffs = dmp.diff_main(baseChars, sideChars, false);
+  const hunks: Hunk[] = [];
+  let basePos = 0;
+  let sidePos = 0;
+
+  for (let i = 0; i < diffs.length; i++) {
+    const [op, chars] = diffs[i];
+    if (op === 0) {
+      basePos += chars.length;
+      sidePos += chars.length;
+      continue;
+    }
+
+    const start = basePos;
+    const sideStart = sidePos;
+    while (i < diffs.length && diffs[i][0] !== 0) {
+      if (diffs[i][0] === -1) basePos += diffs[i][1].length;
+      else sidePos += diffs[i][1].length;
+      i++;
+    }
+    i--;
+    hunks.push({
+      side,
+      start,
+      end: basePos,
+      lines: sideLines.slice(sideStart, sidePos),
+    });
+  }
+
+  return hunks;
+};
+
+// 把某一侧在区间内的修改套用到基础版本上
+const applyHunks = (
+  baseLines: string[],
+  start: number,
+  end: number,
+  hunks: Hunk[],
+) => {
+  let text = "";
+  let pos = start;
+  for (const hunk of hunks) {
+    text += baseLines.slice(pos, hunk.start).join("") + hunk.lines.join("");
+    pos = hunk.end;
+  }
+  return text + baseLines.slice(pos, end).join("");
+};
+
+const itemType = (base: string, merged: string): DiffItem["type"] => {
+  if (!base) return "addition";
+  if (!merged) return "deletion";
+  return "modification";
+};
+
+/**
+ * 三方比较：基础版本分别与“我的”“他们的”按行比较，
+ * 基础版本中区间重叠（或在同一位置插入）的修改归为一组：
+ * 只有一侧修改时自动合并，两侧修改结果相同时视为同一修改，否则为冲突。
+ */
+export const compareThreeWay = (
+  base: string,
+  mine: string,
+  theirs: string,
+): ThreeWayResult => {
+  const dmp = new DiffMatchPatch();
+  const [
+    { lines: baseLines, chars: baseChars },
+    { lines: mineLines, chars: mineChars },
+    { lines: theirsLines, chars: theirsChars },
+  ] = encodeLines([splitLines(base), splitLines(mine), splitLines(theirs)]);
+
+  const hunks = [
+    ...collectHunks(dmp, baseChars, mineChars, mineLines, "mine"),
+    ...collectHunks(dmp, baseChars, theirsChars, theirsLines, "theirs"),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  // 分组：与当前组的区间重叠，或在组的边界处插入
+  const groups: { start: number; end: number; hunks: Hunk[] }[] = [];
+  for (const hunk of hunks) {
+    const group = groups[groups.length - 1];
+    const joins =
+      group &&
+      (hunk.start < group.end ||
+        (hunk.start === group.end &&
+          (hunk.start === hunk.end || group.start === group.end)));
+    if (joins) {
+      group.end = Math.max(group.end, hunk.end);
+      group.hunks.push(hunk);
+    } else {
+      groups.push({ start: hunk.start, end: hunk.end, hunks: [hunk] });
+    }
+  }
+
+  const regions: MergeRegion[] = [];
+  const differences: DiffItem[] = [];
+  let pos = 0;
+
+  groups.forEach((group, idx) => {
+    if (group.start > pos) {
+      regions.push({
+        kind: "stable",
+        text: baseLines.slice(pos, group.start).join(""),
+      });
+    }
+    pos = group.end;
+
+    const ofSide = (side: Hunk["side"]) =>
+      group.hunks.filter((h) => h.side === side);
+    const mineHunks = ofSide("mine");
+    const theirsHunks = ofSide("theirs");
+    const baseText = baseLines.slice(group.start, group.end).join("");
+    const mineText = applyHunks(baseLines, group.start, group.end, mineHunks);
+    const theirsText = applyHunks(
+      baseLines,
+      group.start,
+      group.end,
+      theirsHunks,
+    );
+
+    let kind: ChangeOrigin;
+    if (theirsHunks.length === 0) kind = "mine";
+    else if (mineHunks.length === 0) kind = "theirs";
+    else kind = mineText === theirsText ? "both" : "conflict";
+
+    const id = idx + 1;
+    regions.push({
+      kind,
+      id,
+      line: group.start,
+      base: baseText,
+      mine: mineText,
+      theirs: theirsText,
+    });
+    differences.push({
+      id,
+      type:
+        kind === "conflict"
+          ? "conflict"
+          : itemType(baseText, kind === "theirs" ? theirsText : mineText),
+      textA: truncate(mineText),
+      textB: truncate(theirsText),
+      position: `基础版本第 ${group.start + 1} 行`,
+      origin: kind,
+    });
+  });
+
+  if (pos < baseLines.length) {
+    regions.push({ kind: "stable", text: baseLines.slice(pos).join("") });
+  }
+
+  return { regions, differences };
+};
+
+const resolve = (region: ChangeRegion, resolution: ConflictResolution) => {
+  switch (resolution) {
+    case "mine":
+      return region.mine;
+    case "theirs":
+      return region.theirs;
+    case "base":
+      return region.base;
+    case "both":
+      return (
+        region.mine +
+        (region.mine && !region.mine.endsWith("\n") ? "\n" : "") +
+        region.theirs
+      );
+  }
+};
+
+/**
+ * 生成合并结果：非冲突修改自动采用，冲突按选择合并；
+ * 尚未处理的冲突以 Git 风格的冲突标记保留两侧内容。
+ */
+export const buildThreeWayMerged = (
+  regions: MergeRegion[],
+  resolutions: Record<number, ConflictResolution>,
+): string =>
+  regions
+    .map((region) => {
+      if (region.kind === "stable") return region.text;
+      if (region.kind === "theirs") return region.theirs;
+      if (region.kind !== "conflict") return region.mine;
+
+      const resolution = resolutions[region.id];
+      if (resolution) return resolve(region, resolution);
+      const ensureNewline = (text: string) =>
+        text && !text.endsWith("\n") ? `${text}\n` : text;
+      return (
+        "<<<<<<< 我的\n" +
+        ensureNewline(region.mine) +
+        "=======\n" +
+        ensureNewline(region.theirs) +
+        ">>>>>>> 他们的\n"
+      );
+    })
+    .join("");
@@ -0,0 +1,147 @@
+import DiffMatchPatch from "diff-match-patch";
+
+// 段落在某个版本中的状态；null 表示该版本中还没有这一段
+export type ParagraphState = "added" | "changed" | "same";
+
+export interface ParagraphHistory {
+  text: string;
+  states: (ParagraphState | null)[]; // 与版本一一对应，只到所在版本为止
+  introducedIn: number; // 版本下标（0-based）
+  lastChangedIn: number;
+}
+
+export interface VersionStep {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export interface VersionTimeline {
+  versions: ParagraphHistory[][]; // 每个版本的段落及其来历
+  steps: VersionStep[]; // steps[k] 为版本 k-1 → k 的变化，steps[0] 为空
+}
+
+// 按空行或换行切分段落，去掉首尾空白
+export const splitParagraphs = (text: string) =>
+  text
+    .split(/\n+/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+
+// 每个段落编码为一个 UTF-16 码元：与 diff_linesToChars_ 相同，前一版本最多 40000 种，
+// 其余留给后一版本；超出上限的段落在各自一侧共用一个编码，只能整体按修改处理，
+// 但仍保持一段一个字符，段落下标不会错位
+const MAX_PARAGRAPHS_A = 40000;
+const MAX_PARAGRAPHS_B = 65533;
+const OVERFLOW_A = 65534;
+const OVERFLOW_B = 65535;
+
+const encodeParagraphs = (paragraphsA: string[], paragraphsB: string[]) => {
+  const hash = new Map<string, number>();
+  const encode = (paragraphs: string[], max: number, overflow: number) =>
+    paragraphs
+      .map((paragraph) => {
+        let code = hash.get(paragraph);
+        if (code === undefined) {
+          if (hash.size >= max) return String.fromCharCode(overflow);
+          code = hash.size + 1;
+          hash.set(paragraph, code);
+        }
+        return String.fromCharCode(code);
+      })
+      .join("");
+  return [
+    encode(paragraphsA, MAX_PARAGRAPHS_A, OVERFLOW_A),
+    encode(paragraphsB, MAX_PARAGRAPHS_B, OVERFLOW_B),
+  ];
+};
+
+const lastChange = (states: (ParagraphState | null)[]) => {
+  for (let i = states.length - 1; i >= 0; i--) {
+    if (states[i] === "added" || states[i] === "changed") return i;
+  }
+  return 0;
+};
+
+const withState = (
+  states: (ParagraphState | null)[],
+  text: string,
+): ParagraphHistory => ({
+  text,
+  states,
+  introducedIn: states.findIndex((s) => s !== null),
+  lastChangedIn: lastChange(states),
+});
+
+/**
+ * 逐对比较相邻版本的段落，追踪每一段在哪个版本引入、最后在哪个版本修改。
+ * 段落级 diff 与 diff-match-patch 的按行编码相同：每个段落编码为一个字符。
+ * 相邻的删除与新增按顺序配对视为修改，沿用被修改段落的历史。
+ */
+export const buildVersionTimeline = (texts: string[]): VersionTimeline => {
+  const dmp = new DiffMatchPatch();
+  const versions: ParagraphHistory[][] = [];
+  const steps: VersionStep[] = [];
+
+  texts.forEach((text, k) => {
+    const paragraphs = splitParagraphs(text);
+    if (k === 0) {
+      versions.push(paragraphs.map((p) => withState(["added"], p)));
+      steps.push({ added: 0, changed: 0, removed: 0 });
+      return;
+    }
+
+    const prev = versions[k - 1];
+    const [charsA, charsB] = encodeParagraphs(
+      prev.map((p) => p.text),
+      paragraphs,
+    );
+    const diffs = dmp.diff_main(charsA, charsB, false);
+
+    const absent = (): (ParagraphState | null)[] => Array(k).fill(null);
+    const current: ParagraphHistory[] = [];
+    const step: VersionStep = { added: 0, changed: 0, removed: 0 };
+    let iPrev = 0;
+
+    for (let d = 0; d < diffs.length; d++) {
+      const [op, chars] = diffs[d];
+      if (op === 0) {
+        for (let n = 0; n < chars.length; n++) {
+          const from = prev[iPrev++];
+          current.push(withState([...from.states, "same"], from.text));
+        }
+        continue;
+      }
+
+      // 收集连续的删除与新增
+      let removed = 0;
+      let inserted = 0;
+      while (d < diffs.length && diffs[d][0] !== 0) {
+        if (diffs[d][0] === -1) removed += diffs[d][1].length;
+        else inserted += diffs[d][1].length;
+        d++;
+      }
+      d--;
+
+      const paired = Math.min(removed, inserted);
+      for (let n = 0; n < inserted; n++) {
+        const text = paragraphs[current.length];
+        if (n < paired) {
+          const from = prev[iPrev + n];
+          current.push(withState([...from.states, "changed"], text));
+        } else {
+          current.push(withState([...absent(), "added"], text));
+        }
+      }
+      iPrev += removed;
+      step.changed += paired;
+      step.added += inserted - paired;
+      step.removed += removed - paired;
+    }
+
+    versions.push(current);
+    steps.push(step);
+  });
+
+  return { versions, steps };
+};
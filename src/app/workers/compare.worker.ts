@@ -0,0 +1,84 @@
+import { compareDocuments } from "@/app/lib/compare";
+import { readFileContent, type ParsedDocument } from "@/app/lib/read-document";
+import { readSpreadsheet } from "@/app/lib/spreadsheet";
+import type {
+  CompareRequest,
+  CompareStage,
+  DocumentSource,
+  WorkerRequest,
+  WorkerResponse,
+} from "@/app/lib/compare-job";
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+// 各阶段在总进度中所占的区间
+const STAGE_RANGES: Record<CompareStage, [number, number]> = {
+  parseA: [0, 0.4],
+  parseB: [0.4, 0.8],
+  diff: [0.8, 1],
+};
+
+const reportProgress = (stage: CompareStage, ratio: number) => {
+  const [start, end] = STAGE_RANGES[stage];
+  post({ type: "progress", stage, progress: start + (end - start) * ratio });
+};
+
+const loadSource = async (
+  source: DocumentSource,
+  side: "A" | "B",
+): Promise<ParsedDocument> => {
+  const stage = side === "A" ? "parseA" : "parseB";
+  reportProgress(stage, 0);
+
+  if ("parsed" in source) return source.parsed;
+
+  const doc = await readFileContent(source.file, (ratio) =>
+    reportProgress(stage, ratio),
+  );
+  post({ type: "document", side, doc });
+  return doc;
+};
+
+const compare = async ({ sourceA, sourceB, options }: CompareRequest) => {
+  const docA = await loadSource(sourceA, "A");
+  const docB = await loadSource(sourceB, "B");
+
+  reportProgress("diff", 0);
+  post({ type: "result", result: compareDocuments(docA, docB, options) });
+};
+
+const parse = async (files: File[]) => {
+  const docs: ParsedDocument[] = [];
+  for (const [idx, file] of files.entries()) {
+    post({ type: "parse-progress", progress: idx / files.length });
+    docs.push(
+      await readFileContent(file, (ratio) =>
+        post({
+          type: "parse-progress",
+          progress: (idx + ratio) / files.length,
+        }),
+      ),
+    );
+  }
+  post({ type: "parsed", docs });
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === "compare") {
+      await compare(request);
+    } else if (request.type === "parse") {
+      await parse(request.files);
+    } else {
+      const docs = await Promise.all(request.files.map(readSpreadsheet));
+      post({ type: "spreadsheets", docs });
+    }
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
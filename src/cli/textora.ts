@@ -0,0 +1,214 @@
+import { readFile, stat, writeFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  compareDocuments,
+  DEFAULT_COMPARE_OPTIONS,
+  type CompareOptions,
+} from "../app/lib/compare";
+import { buildComparisonExport } from "../app/lib/data-export";
+import {
+  GRANULARITY_OPTIONS,
+  type DiffGranularity,
+} from "../app/lib/diff-granularity";
+import {
+  fileExtension,
+  readFileContent,
+  SUPPORTED_EXTENSIONS,
+} from "../app/lib/read-document";
+import {
+  buildHtmlReport,
+  buildMarkdownReport,
+} from "../app/lib/report-export";
+
+const USAGE = `用法：textora compare <文档 A> <文档 B> [选项]
+
+选项：
+  -f, --format <html|json|md>   报告格式（默认 md）
+  -o, --out <路径>              写入文件；未给扩展名时按格式补上；省略时输出到标准输出
+  -g, --granularity <粒度>      character | word | sentence | line | paragraph（默认 character）
+      --max-differences <n>     差异数超过 n 时以退出码 1 结束
+      --ignore-whitespace       忽略空白
+      --ignore-case             忽略大小写
+      --ignore-punctuation      忽略标点
+      --ignore-width            忽略全角/半角
+      --ignore-line-breaks      忽略换行
+      --ignore-formatting       忽略格式/标记变化（Word、Markdown、HTML）
+      --ignore-comments         忽略注释（源代码）
+      --ignore-indentation      忽略缩进、字符串以外的空白与空行（源代码）
+  -h, --help                    显示帮助
+
+退出码：0 通过，1 差异数超过阈值，2 参数或文件错误`;
+
+const FORMATS = ["html", "json", "md"] as const;
+type ReportFormat = (typeof FORMATS)[number];
+
+// 与浏览器中选择文件时的 File.type 一致；其余类型浏览器同样给出空串
+const MIME_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  html: "text/html",
+  htm: "text/html",
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+// 命令行参数有误：除错误信息外再输出用法说明
+class UsageError extends Error {}
+
+const readDocument = async (path: string) => {
+  const extension = fileExtension(path);
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new Error(
+      `不支持的文件类型：${path}（支持 ${SUPPORTED_EXTENSIONS.join("、")}）`,
+    );
+  }
+  let data: Buffer;
+  let lastModified: number;
+  try {
+    [data, { mtimeMs: lastModified }] = await Promise.all([
+      readFile(path),
+      stat(path),
+    ]);
+  } catch {
+    throw new Error(`无法读取文件：${path}`);
+  }
+  // 与浏览器共用 readFileContent，需要包装为 File；导出数据中的修改时间、类型取自文件本身
+  const file = new File([new Uint8Array(data)], basename(path), {
+    type: Object.hasOwn(MIME_TYPES, extension) ? MIME_TYPES[extension] : "",
+    lastModified,
+  });
+  return { file, doc: await readFileContent(file) };
+};
+
+const compare = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "md" },
+      out: { type: "string", short: "o" },
+      granularity: { type: "string", short: "g", default: "character" },
+      "max-differences": { type: "string" },
+      "ignore-whitespace": { type: "boolean", default: false },
+      "ignore-case": { type: "boolean", default: false },
+      "ignore-punctuation": { type: "boolean", default: false },
+      "ignore-width": { type: "boolean", default: false },
+      "ignore-line-breaks": { type: "boolean", default: false },
+      "ignore-formatting": { type: "boolean", default: false },
+      "ignore-comments": { type: "boolean", default: false },
+      "ignore-indentation": { type: "boolean", default: false },
+    },
+  });
+
+  if (positionals.length !== 2) {
+    throw new UsageError("需要且只需要两个文档路径");
+  }
+  const format = values.format as ReportFormat;
+  if (!FORMATS.includes(format)) {
+    throw new UsageError(`无效的报告格式：${values.format}`);
+  }
+  if (!GRANULARITY_OPTIONS.some((o) => o.value === values.granularity)) {
+    throw new UsageError(`无效的粒度：${values.granularity}`);
+  }
+  const maxDifferences =
+    values["max-differences"] === undefined
+      ? undefined
+      : Number(values["max-differences"]);
+  if (
+    maxDifferences !== undefined &&
+    !(Number.isInteger(maxDifferences) && maxDifferences >= 0)
+  ) {
+    throw new UsageError("--max-differences 必须是非负整数");
+  }
+
+  const options: CompareOptions = {
+    ...DEFAULT_COMPARE_OPTIONS,
+    granularity: values.granularity as DiffGranularity,
+    ignoreWhitespace: values["ignore-whitespace"],
+    ignoreCase: values["ignore-case"],
+    ignorePunctuation: values["ignore-punctuation"],
+    ignoreWidth: values["ignore-width"],
+    ignoreLineBreaks: values["ignore-line-breaks"],
+    ignoreFormatting: values["ignore-formatting"],
+    ignoreComments: values["ignore-comments"],
+    ignoreIndentation: values["ignore-indentation"],
+  };
+
+  const [a, b] = await Promise.all(positionals.map(readDocument));
+  const result = compareDocuments(a.doc, b.doc, options);
+  const generatedAt = new Date();
+  const meta = { fileNameA: a.file.name, fileNameB: b.file.name, generatedAt };
+
+  const report =
+    format === "json"
+      ? JSON.stringify(
+          buildComparisonExport({
+            fileA: a.file,
+            fileB: b.file,
+            options,
+            contentA: a.doc.text,
+            contentB: b.doc.text,
+            differences: result.differences,
+            differencesA: result.differencesA,
+            differencesB: result.differencesB,
+            generatedAt,
+          }),
+          null,
+          2,
+        ) + "\n"
+      : format === "html"
+        ? buildHtmlReport(result.differences, meta)
+        : buildMarkdownReport(result.differences, meta);
+
+  if (values.out) {
+    const out = extname(values.out) ? values.out : `${values.out}.${format}`;
+    await writeFile(out, report);
+    process.stderr.write(`报告已写入 ${out}\n`);
+  } else {
+    process.stdout.write(report);
+  }
+
+  const total = result.differences.length;
+  if (maxDifferences !== undefined && total > maxDifferences) {
+    process.stderr.write(`差异数 ${total} 超过阈值 ${maxDifferences}\n`);
+    return 1;
+  }
+  process.stderr.write(`共发现 ${total} 处差异\n`);
+  return 0;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...rest] = argv;
+  if (!command || command === "-h" || command === "--help") {
+    process.stdout.write(`${USAGE}\n`);
+    return command ? 0 : 2;
+  }
+  if (command !== "compare") {
+    throw new UsageError(`未知命令：${command}`);
+  }
+  if (rest.includes("-h") || rest.includes("--help")) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+  return compare(rest);
+};
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    // parseArgs 对未知选项抛出 TypeError（code 以 ERR_PARSE_ARGS 开头）
+    const isUsage =
+      err instanceof UsageError ||
+      String((err as { code?: unknown })?.code).startsWith("ERR_PARSE_ARGS");
+    process.stderr.write(
+      `textora: ${err instanceof Error ? err.message : String(err)}\n`,
+    );
+    if (isUsage) process.stderr.write(`\n${USAGE}\n`);
+    process.exitCode = 2;
+  },
+);
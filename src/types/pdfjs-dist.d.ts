@@ -0,0 +1,4 @@
+// pdfjs-dist 没有为 worker 入口提供类型声明；只在 Node.js 中作为 globalThis.pdfjsWorker 使用
+declare module "pdfjs-dist/legacy/build/pdf.worker.mjs" {
+  export const WorkerMessageHandler: unknown;
+}